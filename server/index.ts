@@ -0,0 +1,103 @@
+import { createServer, type IncomingMessage, type ServerResponse } from "node:http";
+import { resolve } from "node:path";
+import { createSessionApi } from "../src/lib/api/session";
+import { ApiError } from "../src/lib/api/types";
+import { createNotificationHub } from "./notifications";
+import { matchRoute } from "./routes";
+import { openStore } from "./store";
+
+const PORT = Number(process.env.PORT ?? 3000);
+const DB_FILE = resolve(process.env.DB_FILE ?? "server/.data/db.json");
+// Reseeding wipes every account and session and needs no login, so it is only
+// there when asked for.
+const ALLOW_RESET = process.env.ALLOW_RESET === "1";
+
+const store = openStore(DB_FILE);
+const notifications = createNotificationHub(store);
+
+const SESSION_COOKIE = "session";
+const SESSION_MAX_AGE = 60 * 60 * 24 * 30;
+
+const readCookie = (req: IncomingMessage, name: string) => {
+  for (const pair of (req.headers.cookie ?? "").split(";")) {
+    const [key, ...value] = pair.trim().split("=");
+    if (key === name) return decodeURIComponent(value.join("="));
+  }
+  return null;
+};
+
+const sessionCookie = (token: string | null) =>
+  token
+    ? `${SESSION_COOKIE}=${encodeURIComponent(token)}; Path=/; HttpOnly; SameSite=Lax; Max-Age=${SESSION_MAX_AGE}`
+    : `${SESSION_COOKIE}=; Path=/; HttpOnly; SameSite=Lax; Max-Age=0`;
+
+const readBody = async (req: IncomingMessage) => {
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) chunks.push(chunk as Buffer);
+  if (chunks.length === 0) return undefined;
+  try {
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+  } catch {
+    throw new ApiError(400, "Request body must be valid JSON");
+  }
+};
+
+const send = (res: ServerResponse, status: number, payload?: unknown) => {
+  if (payload === undefined) {
+    res.writeHead(status === 200 ? 204 : status).end();
+    return;
+  }
+  res.writeHead(status, { "Content-Type": "application/json" });
+  res.end(JSON.stringify(payload));
+};
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url ?? "/", "http://localhost");
+  const method = req.method ?? "GET";
+
+  try {
+    if (ALLOW_RESET && method === "POST" && url.pathname === "/api/__reset") {
+      store.reset();
+      notifications.reset();
+      return send(res, 204);
+    }
+
+    let token = readCookie(req, SESSION_COOKIE);
+    const api = createSessionApi(store.db, {
+      get: () => token,
+      set: (next) => {
+        token = next;
+        res.setHeader("Set-Cookie", sessionCookie(next));
+      },
+    });
+
+    // Long-lived, so it bypasses the JSON routes.
+    if (method === "GET" && url.pathname === "/api/notifications/stream") {
+      const viewer = await api.getCurrentUser();
+      return notifications.subscribe(res, viewer.handle);
+    }
+
+    const route = matchRoute(method, url.pathname);
+    if (!route) throw new ApiError(404, `No route for ${method} ${url.pathname}`);
+
+    const body = await readBody(req);
+    const result = await route.handler({ api, params: route.params, body, query: url.searchParams });
+
+    if (method !== "GET") {
+      store.save();
+      await notifications.publish();
+    }
+    send(res, method === "POST" ? 201 : 200, result);
+  } catch (error) {
+    if (error instanceof ApiError) {
+      send(res, error.status, { error: error.message });
+    } else {
+      console.error(error);
+      send(res, 500, { error: "Internal server error" });
+    }
+  }
+});
+
+server.listen(PORT, () => {
+  console.log(`API listening on http://localhost:${PORT}/api (data: ${DB_FILE})`);
+});
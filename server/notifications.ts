@@ -0,0 +1,76 @@
+import type { ServerResponse } from "node:http";
+import { createService } from "../src/lib/api/service";
+import type { NotificationRecord } from "../src/lib/api/db";
+import type { Store } from "./store";
+
+// Comment lines keep idle connections from being closed by proxies.
+const HEARTBEAT_MS = 25_000;
+
+// How long a dropped client waits before reconnecting.
+const RETRY_MS = 5_000;
+
+// Server-sent events for new notifications. After every write the hub looks
+// for notification records it hasn't announced yet and pushes each one to
+// its recipient's open streams. Records held back by quiet hours are pushed
+// once their delivery time arrives.
+export function createNotificationHub(store: Store) {
+  const streams = new Map<ServerResponse, string>();
+  let announced = new Set<string>();
+  let held: ReturnType<typeof setTimeout> | undefined;
+
+  const isDue = (n: NotificationRecord, now: number) => !n.deliverAt || Date.parse(n.deliverAt) <= now;
+
+  // Arms a timer for the earliest record still held back by quiet hours.
+  const scheduleHeld = (now: number) => {
+    clearTimeout(held);
+    const next = Math.min(
+      ...store.db.notifications.flatMap((n) => (!announced.has(n.id) && n.deliverAt ? [Date.parse(n.deliverAt)] : []))
+    );
+    if (next !== Infinity) held = setTimeout(publish, Math.max(0, next - now));
+  };
+
+  // Everything already stored and due counts as announced, so only later
+  // events are pushed. Records still held for quiet hours go out when they fall due.
+  const reset = () => {
+    const now = Date.now();
+    announced = new Set(store.db.notifications.filter((n) => isDue(n, now)).map((n) => n.id));
+    scheduleHeld(now);
+  };
+
+  const subscribe = (res: ServerResponse, handle: string) => {
+    res.writeHead(200, {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache",
+      Connection: "keep-alive",
+    });
+    res.write(`retry: ${RETRY_MS}\n\n`);
+    streams.set(res, handle);
+
+    const heartbeat = setInterval(() => res.write(": ping\n\n"), HEARTBEAT_MS);
+    res.on("close", () => {
+      clearInterval(heartbeat);
+      streams.delete(res);
+    });
+  };
+
+  const publish = async () => {
+    const now = Date.now();
+    const fresh = store.db.notifications.filter((n) => !announced.has(n.id) && isDue(n, now));
+    fresh.forEach((n) => announced.add(n.id));
+    scheduleHeld(now);
+
+    for (const [res, handle] of streams) {
+      const ids = new Set(fresh.filter((n) => n.recipientHandle === handle).map((n) => n.id));
+      if (ids.size === 0) continue;
+      // Hydrated per recipient, since posts carry viewer-relative state.
+      const notifications = (await createService(store.db, handle).getNotifications()).filter((n) => ids.has(n.id));
+      for (const notification of notifications.reverse()) {
+        res.write(`event: notification\ndata: ${JSON.stringify(notification)}\n\n`);
+      }
+    }
+  };
+
+  reset();
+
+  return { subscribe, publish, reset };
+}
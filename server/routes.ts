@@ -0,0 +1,258 @@
+import {
+  ApiError,
+  type Api,
+  type CreatePostInput,
+  type CreateStoryInput,
+  type FeedKind,
+  type LogInInput,
+  type NotificationFilter,
+  type PageParams,
+  type PostSearchSort,
+  type ProfileTab,
+  type SignUpInput,
+  type UpdateProfileInput,
+} from "../src/lib/api/types";
+import type { NotificationPreferences } from "../src/lib/data";
+
+export interface RouteContext {
+  api: Api;
+  params: Record<string, string>;
+  body: unknown;
+  query: URLSearchParams;
+}
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  keys: string[];
+  handler: (ctx: RouteContext) => Promise<unknown>;
+}
+
+const routes: Route[] = [];
+
+type FieldType = "string" | "number" | "boolean" | "array" | "object";
+// "?" lets the field be left out; "|null" lets it be null.
+type Field = FieldType | `${FieldType}?` | `${FieldType}|null`;
+
+const typeNames: Record<FieldType, string> = {
+  string: "a string",
+  number: "a number",
+  boolean: "true or false",
+  array: "a list",
+  object: "an object",
+};
+
+const isType = (value: unknown, type: FieldType) =>
+  type === "array"
+    ? Array.isArray(value)
+    : type === "object"
+      ? typeof value === "object" && value !== null && !Array.isArray(value)
+      : typeof value === type;
+
+// Bodies are whatever the client sent. Checking the shape a handler relies on
+// here turns bad input into a 400 instead of a TypeError inside the service;
+// the service still validates the values themselves.
+function checkObject<T>(value: unknown, fields: Record<string, Field>, name = "Request body"): T {
+  if (!isType(value, "object")) throw new ApiError(400, `${name} must be a JSON object`);
+  for (const [key, field] of Object.entries(fields)) {
+    const fieldValue = (value as Record<string, unknown>)[key];
+    if (fieldValue === undefined && field.endsWith("?")) continue;
+    if (fieldValue === null && field.endsWith("|null")) continue;
+    const type = field.replace(/\?$|\|null$/, "") as FieldType;
+    if (!isType(fieldValue, type)) throw new ApiError(400, `${key} must be ${typeNames[type]}`);
+  }
+  return value as T;
+}
+
+const pageParams = (query: URLSearchParams): PageParams => ({
+  cursor: query.get("cursor"),
+  limit: query.has("limit") ? Number(query.get("limit")) : undefined,
+});
+
+const route = (method: string, path: string, handler: Route["handler"]) => {
+  const keys: string[] = [];
+  const source = path.replace(/:(\w+)/g, (_, key: string) => {
+    keys.push(key);
+    return "([^/]+)";
+  });
+  routes.push({ method, pattern: new RegExp(`^/api${source}/?$`), keys, handler });
+};
+
+export function matchRoute(method: string, pathname: string) {
+  for (const candidate of routes) {
+    if (candidate.method !== method) continue;
+    const match = candidate.pattern.exec(pathname);
+    if (!match) continue;
+    try {
+      const params = Object.fromEntries(
+        candidate.keys.map((key, index) => [key, decodeURIComponent(match[index + 1])])
+      );
+      return { handler: candidate.handler, params };
+    } catch {
+      throw new ApiError(400, `Malformed path ${pathname}`);
+    }
+  }
+  return null;
+}
+
+// Sessions. The token travels in an HttpOnly cookie set by the server.
+route("GET", "/session", ({ api }) => api.getSession());
+route("POST", "/session", ({ api, body }) => api.logIn(checkObject<LogInInput>(body, { identifier: "string", password: "string" })));
+route("DELETE", "/session", ({ api }) => api.logOut());
+route("POST", "/accounts", ({ api, body }) =>
+  api.signUp(
+    checkObject<SignUpInput>(body, { name: "string", handle: "string", email: "string", password: "string" })
+  )
+);
+
+// Users and the follow graph
+route("GET", "/me", ({ api }) => api.getCurrentUser());
+route("PATCH", "/me", ({ api, body }) =>
+  api.updateProfile(
+    checkObject<UpdateProfileInput>(body, {
+      name: "string",
+      bio: "string",
+      location: "string",
+      website: "string",
+      avatarUrl: "string",
+      coverUrl: "string",
+    })
+  )
+);
+route("GET", "/users", ({ api }) => api.getUsers());
+route("GET", "/users/:handle", ({ api, params }) => api.getUser(params.handle));
+route("GET", "/users/:handle/posts", ({ api, params, query }) => {
+  const tab = query.get("tab") ?? "posts";
+  if (tab !== "posts" && tab !== "replies" && tab !== "media" && tab !== "likes") {
+    throw new ApiError(400, `Unknown tab ${tab}`);
+  }
+  return api.getUserPosts(params.handle, tab as ProfileTab, pageParams(query));
+});
+route("GET", "/users/:handle/followers", ({ api, params, query }) =>
+  api.getFollowers(params.handle, pageParams(query))
+);
+route("GET", "/users/:handle/following", ({ api, params, query }) =>
+  api.getFollowing(params.handle, pageParams(query))
+);
+route("PUT", "/users/:handle/follow", ({ api, params }) => api.followUser(params.handle));
+route("DELETE", "/users/:handle/follow", ({ api, params }) => api.unfollowUser(params.handle));
+route("GET", "/suggestions", ({ api, query }) => api.getFollowSuggestions(pageParams(query)));
+route("DELETE", "/suggestions/:handle", ({ api, params }) => api.dismissFollowSuggestion(params.handle));
+
+// Posts, replies and engagement
+const feedKind = (kind: string): FeedKind => {
+  if (kind !== "for-you" && kind !== "following") {
+    throw new ApiError(404, `Unknown feed ${kind}`);
+  }
+  return kind;
+};
+
+route("GET", "/feed/:kind", ({ api, params, query }) => api.getFeed(feedKind(params.kind), pageParams(query)));
+route("GET", "/feed/:kind/new", ({ api, params, query }) =>
+  api.countNewPosts(feedKind(params.kind), query.get("since") ?? "")
+);
+route("POST", "/posts", ({ api, body }) => {
+  const input = checkObject<CreatePostInput>(body, { content: "string", media: "array?", replyTo: "string?" });
+  input.media?.forEach((item) => checkObject(item, { url: "string", alt: "string?" }, "Each image"));
+  return api.createPost(input);
+});
+route("GET", "/posts/:id", ({ api, params }) => api.getPost(params.id));
+route("DELETE", "/posts/:id", ({ api, params }) => api.deletePost(params.id));
+route("GET", "/posts/:id/thread", ({ api, params }) => api.getThread(params.id));
+route("GET", "/posts/:id/replies", ({ api, params, query }) =>
+  api.getReplies(params.id, {
+    offset: Number(query.get("offset") ?? 0),
+    limit: query.has("limit") ? Number(query.get("limit")) : undefined,
+  })
+);
+route("PUT", "/posts/:id/like", ({ api, params }) => api.likePost(params.id));
+route("DELETE", "/posts/:id/like", ({ api, params }) => api.unlikePost(params.id));
+route("PUT", "/posts/:id/repost", ({ api, params }) => api.repost(params.id));
+route("DELETE", "/posts/:id/repost", ({ api, params }) => api.undoRepost(params.id));
+
+// Bookmarks
+route("GET", "/bookmarks", ({ api, query }) => api.getBookmarks(query.get("folder") ?? undefined));
+route("PUT", "/bookmarks/:id", ({ api, params }) => api.addBookmark(params.id));
+route("DELETE", "/bookmarks/:id", ({ api, params }) => api.removeBookmark(params.id));
+route("PUT", "/bookmarks/:id/folder", ({ api, params, body }) =>
+  api.moveBookmark(params.id, checkObject<{ folderId: string | null }>(body, { folderId: "string|null" }).folderId)
+);
+route("GET", "/bookmark-folders", ({ api }) => api.getBookmarkFolders());
+route("POST", "/bookmark-folders", ({ api, body }) =>
+  api.createBookmarkFolder(checkObject<{ name: string }>(body, { name: "string" }).name)
+);
+route("GET", "/bookmark-folders/:id", ({ api, params }) => api.getBookmarkFolder(params.id));
+route("PATCH", "/bookmark-folders/:id", ({ api, params, body }) =>
+  api.renameBookmarkFolder(params.id, checkObject<{ name: string }>(body, { name: "string" }).name)
+);
+route("DELETE", "/bookmark-folders/:id", ({ api, params }) => api.deleteBookmarkFolder(params.id));
+
+// Notifications
+route("GET", "/notifications", ({ api, query }) => {
+  const filter = query.get("filter") ?? "all";
+  if (filter !== "all" && filter !== "mentions" && filter !== "verified") {
+    throw new ApiError(400, `Unknown filter ${filter}`);
+  }
+  return api.getNotifications(filter as NotificationFilter);
+});
+route("GET", "/notifications/unread", ({ api }) => api.getUnreadNotificationCount());
+route("PUT", "/notifications/read", ({ api }) => api.markAllNotificationsRead());
+route("PUT", "/notifications/:id/read", ({ api, params }) => api.markNotificationRead(params.id));
+route("GET", "/settings/notifications", ({ api }) => api.getNotificationPreferences());
+route("PUT", "/settings/notifications", ({ api, body }) =>
+  api.updateNotificationPreferences(
+    checkObject<NotificationPreferences>(body, {
+      types: "object",
+      from: "string",
+      quietHours: "object",
+      emailDigest: "string",
+    })
+  )
+);
+
+// Search
+const searchQuery = (query: URLSearchParams) => query.get("q") ?? "";
+
+route("GET", "/search", ({ api, query }) =>
+  api.search(searchQuery(query), query.has("limit") ? Number(query.get("limit")) : undefined)
+);
+route("GET", "/search/users", ({ api, query }) => api.searchUsers(searchQuery(query), pageParams(query)));
+route("GET", "/search/posts", ({ api, query }) => {
+  const sort = query.get("sort") ?? "top";
+  if (sort !== "top" && sort !== "latest") throw new ApiError(400, `Unknown sort ${sort}`);
+  return api.searchPosts(searchQuery(query), { ...pageParams(query), sort: sort as PostSearchSort });
+});
+route("GET", "/search/hashtags", ({ api, query }) => api.searchHashtags(searchQuery(query), pageParams(query)));
+
+// Hashtags
+route("GET", "/hashtags/:tag", ({ api, params }) => api.getHashtag(params.tag));
+route("GET", "/hashtags/:tag/posts", ({ api, params, query }) => api.getHashtagPosts(params.tag, pageParams(query)));
+
+// Trends
+route("GET", "/trends", ({ api, query }) =>
+  api.getTrends(query.has("limit") ? Number(query.get("limit")) : undefined)
+);
+
+// Stories
+route("GET", "/stories", ({ api }) => api.getStoryReels());
+route("POST", "/stories", ({ api, body }) =>
+  api.createStory(checkObject<CreateStoryInput>(body, { imageUrl: "string?", text: "string?", background: "string?" }))
+);
+route("PUT", "/stories/:id/seen", ({ api, params }) => api.markStorySeen(params.id));
+
+// Direct messages
+route("GET", "/conversations", ({ api }) => api.getConversations());
+route("POST", "/conversations", ({ api, body }) =>
+  api.startConversation(checkObject<{ handle: string }>(body, { handle: "string" }).handle)
+);
+route("GET", "/conversations/unread", ({ api }) => api.getUnreadMessageCount());
+route("GET", "/conversations/:id", ({ api, params }) => api.getConversation(params.id));
+route("GET", "/conversations/:id/messages", ({ api, params, query }) =>
+  api.getMessages(params.id, pageParams(query))
+);
+route("POST", "/conversations/:id/messages", ({ api, params, body }) =>
+  api.sendMessage(params.id, checkObject<{ content: string }>(body, { content: "string" }).content)
+);
+route("PUT", "/conversations/:id/read", ({ api, params }) => api.markConversationRead(params.id));
+route("PUT", "/conversations/:id/typing", ({ api, params }) => api.setTyping(params.id, true));
+route("DELETE", "/conversations/:id/typing", ({ api, params }) => api.setTyping(params.id, false));
@@ -0,0 +1,57 @@
+import { existsSync, mkdirSync, readFileSync, renameSync, writeFileSync } from "node:fs";
+import { dirname } from "node:path";
+import { createSeedDatabase, type Database, type PostRecord } from "../src/lib/api/db";
+
+// JSON-file persistence for the local API. The whole database is small enough
+// to keep in memory and rewrite on every mutation.
+export function openStore(file: string) {
+  let db: Database;
+
+  if (existsSync(file)) {
+    // Files written before a collection existed get it empty.
+    db = {
+      bookmarkFolders: [],
+      dismissedSuggestions: [],
+      notificationPreferences: [],
+      stories: [],
+      storyViews: [],
+      conversations: [],
+      messages: [],
+      accounts: [],
+      sessions: [],
+      ...JSON.parse(readFileSync(file, "utf8")),
+    };
+    // Posts saved before multi-image support carry a single `imageUrl`.
+    db.posts = db.posts.map((post) => {
+      const { imageUrl, ...rest } = post as PostRecord & { imageUrl?: string };
+      return imageUrl && !rest.media ? { ...rest, media: [{ url: imageUrl, alt: "" }] } : rest;
+    });
+  } else {
+    db = createSeedDatabase();
+  }
+
+  const save = () => {
+    mkdirSync(dirname(file), { recursive: true });
+    // Write-then-rename so a crash mid-write never leaves a truncated file.
+    const tmp = `${file}.tmp`;
+    writeFileSync(tmp, JSON.stringify(db, null, 2));
+    renameSync(tmp, file);
+  };
+
+  const reset = () => {
+    db = createSeedDatabase();
+    save();
+  };
+
+  if (!existsSync(file)) save();
+
+  return {
+    get db() {
+      return db;
+    },
+    save,
+    reset,
+  };
+}
+
+export type Store = ReturnType<typeof openStore>;
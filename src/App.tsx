@@ -1,13 +1,48 @@
-import { QueryClient, QueryClientProvider } from "@tanstack/react-query";
-import { BrowserRouter, Routes, Route } from "react-router-dom";
+import { QueryCache, QueryClient, QueryClientProvider } from "@tanstack/react-query";
+import { BrowserRouter, Navigate, Routes, Route, useLocation } from "react-router-dom";
 import Home from "./pages/Home";
 import Profile from "./pages/Profile";
 import Notifications from "./pages/Notifications";
+import PostDetail from "./pages/PostDetail";
+import FollowList from "./pages/FollowList";
+import Messages from "./pages/Messages";
+import Conversation from "./pages/Conversation";
+import Bookmarks from "./pages/Bookmarks";
+import BookmarkFolder from "./pages/BookmarkFolder";
+import Search from "./pages/Search";
+import Hashtag from "./pages/Hashtag";
+import WhoToFollow from "./pages/WhoToFollow";
+import NotificationSettings from "./pages/NotificationSettings";
+import Login from "./pages/Login";
+import SignUp from "./pages/SignUp";
 import Layout from "./components/layout/Layout";
+import RequireAuth from "./components/auth/RequireAuth";
+import RouteErrorBoundary from "./components/common/RouteErrorBoundary";
+import NotFound from "./pages/NotFound";
+import { ApiError, queryKeys } from "./lib/api";
+import { ToastContainer } from "react-toastify";
 import 'react-toastify/dist/ReactToastify.css';
 
 
-const queryClient = new QueryClient();
+const queryClient = new QueryClient({
+    defaultOptions: {
+        queries: {
+            // Client errors (a missing profile, a bad link) won't fix
+            // themselves, so only server and network failures are retried.
+            retry: (failureCount, error) =>
+                !(error instanceof ApiError && error.status < 500) && failureCount < 3,
+        },
+    },
+    queryCache: new QueryCache({
+        // A 401 anywhere means the session is gone; clearing it sends
+        // <RequireAuth> back to the login page.
+        onError: (error) => {
+            if (error instanceof ApiError && error.status === 401) {
+                queryClient.setQueryData(queryKeys.currentUser, null);
+            }
+        },
+    }),
+});
 
 // =======================================================
 // ✅ Wrapper that hides Header on specific routes
@@ -22,18 +57,54 @@ const queryClient = new QueryClient();
 // };
 // =======================================================
 
-const App = () => (
-    <div className="font-primarylw">
-        <QueryClientProvider client={queryClient}>
-            <BrowserRouter>
-                <Routes>
+// Catches what the layout's own boundary can't: the login pages and the layout
+// chrome. Like that one it resets on navigation, or "Go home" would leave the
+// error on screen.
+const AppRoutes = () => {
+    const location = useLocation();
+
+    return (
+        <RouteErrorBoundary resetKey={location.pathname}>
+            <Routes>
+                <Route path="/login" element={<Login />} />
+                <Route path="/signup" element={<SignUp />} />
+                <Route element={<RequireAuth />}>
                     <Route element={<Layout />}>
                         <Route path="/" element={<Home />} />
                         <Route path="/profile/:handle" element={<Profile />} />
+                        <Route path="/profile/:handle/replies" element={<Profile tab="replies" />} />
+                        <Route path="/profile/:handle/media" element={<Profile tab="media" />} />
+                        <Route path="/profile/:handle/likes" element={<Profile tab="likes" />} />
+                        <Route path="/profile/:handle/followers" element={<FollowList kind="followers" />} />
+                        <Route path="/profile/:handle/following" element={<FollowList kind="following" />} />
+                        <Route path="/post/:id" element={<PostDetail />} />
                         <Route path="/notifications" element={<Notifications />} />
+                        <Route path="/notifications/mentions" element={<Notifications filter="mentions" />} />
+                        <Route path="/notifications/verified" element={<Notifications filter="verified" />} />
+                        <Route path="/messages" element={<Messages />} />
+                        <Route path="/messages/:id" element={<Conversation />} />
+                        <Route path="/bookmarks" element={<Bookmarks />} />
+                        <Route path="/bookmarks/folders/:id" element={<BookmarkFolder />} />
+                        <Route path="/search" element={<Search />} />
+                        <Route path="/hashtag/:tag" element={<Hashtag />} />
+                        <Route path="/suggestions" element={<WhoToFollow />} />
+                        <Route path="/settings" element={<Navigate to="/settings/notifications" replace />} />
+                        <Route path="/settings/notifications" element={<NotificationSettings />} />
+                        <Route path="*" element={<NotFound />} />
                     </Route>
-                </Routes>
+                </Route>
+            </Routes>
+        </RouteErrorBoundary>
+    );
+};
+
+const App = () => (
+    <div className="font-primarylw">
+        <QueryClientProvider client={queryClient}>
+            <BrowserRouter>
+                <AppRoutes />
             </BrowserRouter>
+            <ToastContainer position="bottom-center" theme="dark" />
         </QueryClientProvider>
     </div >
 );
@@ -0,0 +1,21 @@
+export const authInputClassName = "bg-neutral-900 border-neutral-700 text-white";
+
+interface AuthLayoutProps {
+  title: string;
+  children: React.ReactNode;
+  footer: React.ReactNode;
+}
+
+// Centered card shared by the login and sign-up pages.
+const AuthLayout = ({ title, children, footer }: AuthLayoutProps) => (
+  <div className="bg-neutral-950 text-white min-h-screen flex items-center justify-center px-4">
+    <div className="w-full max-w-sm">
+      <h1 className="text-3xl font-bold tracking-tighter mb-2">Societal</h1>
+      <h2 className="text-xl font-bold mb-8 text-neutral-300">{title}</h2>
+      {children}
+      <p className="mt-8 text-neutral-500 text-sm">{footer}</p>
+    </div>
+  </div>
+);
+
+export default AuthLayout;
@@ -0,0 +1,37 @@
+import { Navigate, Outlet, useLocation } from "react-router-dom";
+import { ErrorState } from "@/components/common/QueryState";
+import { useSession } from "@/hooks/use-auth";
+import { CurrentUserContext } from "@/hooks/use-current-user";
+
+// Gate for every signed-in route. Visitors without a session are sent to the
+// login page, which returns them here afterwards.
+const RequireAuth = () => {
+  const location = useLocation();
+  const { data: user, isPending, isError, refetch } = useSession();
+
+  if (isPending) {
+    return (
+      <div className="bg-neutral-950 min-h-screen flex items-center justify-center">
+        <div className="w-8 h-8 rounded-full border-2 border-neutral-700 border-t-sky-500 animate-spin" />
+      </div>
+    );
+  }
+
+  if (isError) {
+    return (
+      <div className="bg-neutral-950 text-white min-h-screen flex items-center justify-center">
+        <ErrorState message="Couldn't reach the server." onRetry={() => refetch()} />
+      </div>
+    );
+  }
+
+  if (!user) return <Navigate to="/login" replace state={{ from: location }} />;
+
+  return (
+    <CurrentUserContext.Provider value={user}>
+      <Outlet />
+    </CurrentUserContext.Provider>
+  );
+};
+
+export default RequireAuth;
@@ -0,0 +1,82 @@
+import { useState } from "react";
+import { Dialog, DialogContent, DialogTitle } from "@/components/lightswind/dialog";
+import { useCreateBookmarkFolder, useRenameBookmarkFolder } from "@/hooks/use-bookmarks";
+import { MAX_FOLDER_NAME_LENGTH } from "@/lib/api";
+import type { BookmarkFolder } from "@/lib/data";
+
+interface BookmarkFolderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /** The folder to rename; a new folder is created when omitted. */
+  folder?: BookmarkFolder;
+  onSaved?: (folder: BookmarkFolder) => void;
+}
+
+// Names a new bookmark folder, or renames an existing one.
+const BookmarkFolderDialog = ({ open, onOpenChange, folder, onSaved }: BookmarkFolderDialogProps) => {
+  const create = useCreateBookmarkFolder();
+  const rename = useRenameBookmarkFolder(folder?.id ?? "");
+  const save = folder ? rename : create;
+  const [name, setName] = useState(folder?.name ?? "");
+  const [error, setError] = useState<string | null>(null);
+
+  const close = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) {
+      setName(folder?.name ?? "");
+      setError(null);
+    }
+  };
+
+  const submit = (e: React.FormEvent) => {
+    e.preventDefault();
+    save.mutate(name, {
+      onSuccess: (saved) => {
+        close(false);
+        onSaved?.(saved);
+      },
+      onError: (err) => setError(err.message),
+    });
+  };
+
+  const trimmed = name.trim();
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="bg-neutral-950 border-neutral-800 text-white max-w-sm">
+        <DialogTitle className="text-xl font-bold">{folder ? "Rename folder" : "New folder"}</DialogTitle>
+        <form onSubmit={submit} className="space-y-4">
+          <div>
+            <input
+              autoFocus
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value);
+                setError(null);
+              }}
+              maxLength={MAX_FOLDER_NAME_LENGTH}
+              placeholder="Name"
+              aria-invalid={!!error}
+              className="w-full bg-transparent border border-neutral-700 rounded-md px-3 py-2 outline-none focus:border-sky-500 placeholder:text-neutral-500"
+            />
+            <div className="flex justify-between mt-1 text-sm">
+              <span className="text-red-500">{error}</span>
+              <span className="text-neutral-500">
+                {trimmed.length}/{MAX_FOLDER_NAME_LENGTH}
+              </span>
+            </div>
+          </div>
+          <button
+            type="submit"
+            disabled={!trimmed || trimmed === folder?.name || save.isPending}
+            className="w-full bg-sky-500 hover:bg-sky-600 text-white font-bold py-2 rounded-full disabled:opacity-50"
+          >
+            {folder ? "Save" : "Create"}
+          </button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BookmarkFolderDialog;
@@ -0,0 +1,15 @@
+import { Link } from "react-router-dom";
+import GlassFolder from "@/components/lightswind/glass-folder";
+import type { BookmarkFolder } from "@/lib/data";
+
+const FolderTile = ({ folder }: { folder: BookmarkFolder }) => (
+  <Link to={`/bookmarks/folders/${folder.id}`} className="flex flex-col items-center group/tile">
+    <GlassFolder icon={<span className="font-bold text-white">{folder.count}</span>} />
+    <p className="mt-3 font-bold truncate max-w-60 group-hover/tile:underline">{folder.name}</p>
+    <p className="text-sm text-neutral-500">
+      {folder.count} {folder.count === 1 ? "bookmark" : "bookmarks"}
+    </p>
+  </Link>
+);
+
+export default FolderTile;
@@ -0,0 +1,77 @@
+import { useState } from "react";
+import { Check, FolderPlus } from "lucide-react";
+import { toast } from "react-toastify";
+import { Dialog, DialogContent, DialogTitle } from "@/components/lightswind/dialog";
+import { useBookmarkFolders } from "@/hooks/use-bookmarks";
+import { useMoveBookmark } from "@/hooks/use-posts";
+import type { Post } from "@/lib/data";
+import { cn } from "@/lib/utils";
+import BookmarkFolderDialog from "./BookmarkFolderDialog";
+
+interface MoveBookmarkDialogProps {
+  post: Post;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Files a bookmarked post into one of the viewer's folders, optionally
+// creating the folder on the way. Mount it only while open: it loads the
+// folder list as soon as it renders.
+const MoveBookmarkDialog = ({ post, open, onOpenChange }: MoveBookmarkDialogProps) => {
+  const { data: folders = [], isPending } = useBookmarkFolders();
+  const moveBookmark = useMoveBookmark();
+  const [creating, setCreating] = useState(false);
+
+  const move = (folderId: string | null) => {
+    onOpenChange(false);
+    if (folderId === (post.bookmarkFolderId ?? null)) return;
+    moveBookmark.mutate(
+      { id: post.id, folderId },
+      { onError: () => toast.error("Couldn't move the bookmark. Please try again.") }
+    );
+  };
+
+  const options = [{ id: null, name: "No folder" }, ...folders];
+
+  return (
+    <>
+      <Dialog open={open && !creating} onOpenChange={onOpenChange}>
+        <DialogContent className="bg-neutral-950 border-neutral-800 text-white max-w-sm">
+          <DialogTitle className="text-xl font-bold">Move to folder</DialogTitle>
+          <div className="max-h-80 overflow-y-auto -mx-6">
+            {isPending ? (
+              <p className="p-6 text-center text-neutral-500">Loading folders…</p>
+            ) : (
+              options.map((folder) => {
+                const current = folder.id === (post.bookmarkFolderId ?? null);
+                return (
+                  <button
+                    key={folder.id ?? "none"}
+                    onClick={() => move(folder.id)}
+                    className={cn(
+                      "w-full flex items-center justify-between px-6 py-3 text-left hover:bg-neutral-900",
+                      current && "font-bold"
+                    )}
+                  >
+                    <span className="truncate">{folder.name}</span>
+                    {current && <Check size={18} className="text-sky-500 shrink-0" />}
+                  </button>
+                );
+              })
+            )}
+          </div>
+          <button
+            onClick={() => setCreating(true)}
+            className="flex items-center space-x-2 text-sky-500 hover:underline"
+          >
+            <FolderPlus size={18} />
+            <span>New folder</span>
+          </button>
+        </DialogContent>
+      </Dialog>
+      <BookmarkFolderDialog open={creating} onOpenChange={setCreating} onSaved={(folder) => move(folder.id)} />
+    </>
+  );
+};
+
+export default MoveBookmarkDialog;
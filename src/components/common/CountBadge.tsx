@@ -0,0 +1,24 @@
+import { cn } from "@/lib/utils";
+
+interface CountBadgeProps {
+  count: number;
+  className?: string;
+}
+
+// Small unread counter pinned to an icon. Renders nothing at zero.
+const CountBadge = ({ count, className }: CountBadgeProps) => {
+  if (count <= 0) return null;
+
+  return (
+    <span
+      className={cn(
+        "min-w-5 h-5 px-1.5 rounded-full bg-sky-500 text-white text-xs font-bold flex items-center justify-center",
+        className
+      )}
+    >
+      {count > 99 ? "99+" : count}
+    </span>
+  );
+};
+
+export default CountBadge;
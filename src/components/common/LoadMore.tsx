@@ -0,0 +1,42 @@
+import { useEffect, useRef } from "react";
+
+interface LoadMoreProps {
+  hasMore: boolean;
+  isLoading: boolean;
+  onLoadMore: () => void;
+}
+
+// Fetches the next page once the end of a list scrolls into view. The button
+// doubles as a fallback when IntersectionObserver doesn't fire.
+const LoadMore = ({ hasMore, isLoading, onLoadMore }: LoadMoreProps) => {
+  const ref = useRef<HTMLButtonElement>(null);
+
+  useEffect(() => {
+    const node = ref.current;
+    if (!node || !hasMore || isLoading) return;
+
+    const observer = new IntersectionObserver(
+      ([entry]) => {
+        if (entry.isIntersecting) onLoadMore();
+      },
+      { rootMargin: "400px" }
+    );
+    observer.observe(node);
+    return () => observer.disconnect();
+  }, [hasMore, isLoading, onLoadMore]);
+
+  if (!hasMore) return null;
+
+  return (
+    <button
+      ref={ref}
+      onClick={onLoadMore}
+      disabled={isLoading}
+      className="w-full p-4 text-sky-500 hover:bg-neutral-900/50 disabled:text-neutral-500"
+    >
+      {isLoading ? "Loading…" : "Show more"}
+    </button>
+  );
+};
+
+export default LoadMore;
@@ -0,0 +1,41 @@
+import { Skeleton } from "@/components/lightswind/skeleton";
+import { AlertCircle } from "lucide-react";
+
+export const PostListSkeleton = ({ count = 3 }: { count?: number }) => (
+  <div>
+    {Array.from({ length: count }).map((_, index) => (
+      <div key={index} className="border-b border-neutral-800 p-4 flex space-x-4">
+        <Skeleton variant="circle" className="w-12 h-12 shrink-0 bg-neutral-800" />
+        <div className="w-full space-y-3">
+          <Skeleton className="h-4 w-1/3 bg-neutral-800" />
+          <Skeleton className="h-4 w-full bg-neutral-800" />
+          <Skeleton className="h-4 w-2/3 bg-neutral-800" />
+        </div>
+      </div>
+    ))}
+  </div>
+);
+
+interface ErrorStateProps {
+  message?: string;
+  onRetry?: () => void;
+}
+
+export const ErrorState = ({ message = "Something went wrong.", onRetry }: ErrorStateProps) => (
+  <div className="p-8 flex flex-col items-center text-center text-neutral-500 space-y-3">
+    <AlertCircle className="w-8 h-8 text-neutral-600" />
+    <p>{message}</p>
+    {onRetry && (
+      <button
+        onClick={onRetry}
+        className="bg-sky-500 hover:bg-sky-600 text-white font-bold py-2 px-5 rounded-full transition-colors duration-200"
+      >
+        Try again
+      </button>
+    )}
+  </div>
+);
+
+export const EmptyState = ({ children }: { children: React.ReactNode }) => (
+  <div className="p-8 text-center text-neutral-500">{children}</div>
+);
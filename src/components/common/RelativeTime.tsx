@@ -0,0 +1,25 @@
+import { Tooltip } from "@/components/lightswind/tooltip";
+import { useNow } from "@/hooks/use-now";
+import { formatAbsoluteTime, formatRelativeTime } from "@/lib/time";
+
+interface RelativeTimeProps {
+  /** ISO 8601 timestamp. */
+  date: string;
+  className?: string;
+}
+
+// Compact, self-updating age ("now" → "1m" → "2h") with the full date and
+// time on hover.
+const RelativeTime = ({ date, className }: RelativeTimeProps) => {
+  const now = useNow();
+
+  return (
+    <Tooltip content={formatAbsoluteTime(date)} asChild>
+      <time dateTime={date} className={className}>
+        {formatRelativeTime(date, new Date(now))}
+      </time>
+    </Tooltip>
+  );
+};
+
+export default RelativeTime;
@@ -0,0 +1,50 @@
+import { Component, type ErrorInfo, type ReactNode } from "react";
+import { Link } from "react-router-dom";
+import { ErrorState } from "./QueryState";
+
+interface RouteErrorBoundaryProps {
+  /** Changing this (e.g. on navigation) clears a caught error. */
+  resetKey?: string;
+  children: ReactNode;
+}
+
+interface RouteErrorBoundaryState {
+  error: Error | null;
+}
+
+// Catches render errors below it so one broken page shows a recoverable
+// error instead of blanking the app. Retrying re-renders the children.
+class RouteErrorBoundary extends Component<RouteErrorBoundaryProps, RouteErrorBoundaryState> {
+  state: RouteErrorBoundaryState = { error: null };
+
+  static getDerivedStateFromError(error: Error): RouteErrorBoundaryState {
+    return { error };
+  }
+
+  componentDidCatch(error: Error, info: ErrorInfo) {
+    console.error("Route crashed", error, info.componentStack);
+  }
+
+  componentDidUpdate(prevProps: RouteErrorBoundaryProps) {
+    if (this.state.error && prevProps.resetKey !== this.props.resetKey) this.reset();
+  }
+
+  reset = () => this.setState({ error: null });
+
+  render() {
+    if (!this.state.error) return this.props.children;
+
+    return (
+      <div>
+        <ErrorState message="Something went wrong on this page." onRetry={this.reset} />
+        <p className="text-center">
+          <Link to="/" className="text-sky-500 hover:underline">
+            Go home
+          </Link>
+        </p>
+      </div>
+    );
+  }
+}
+
+export default RouteErrorBoundary;
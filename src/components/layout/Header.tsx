@@ -1,9 +1,33 @@
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
-import { users } from "@/lib/data";
-import { Bell, Mail, Search } from "lucide-react";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/lightswind/dropdown-menu";
+import { useLogOut } from "@/hooks/use-auth";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useUnreadMessageCount } from "@/hooks/use-messages";
+import { useUnreadNotificationCount } from "@/hooks/use-notifications";
+import CountBadge from "@/components/common/CountBadge";
+import { Bell, LogOut, Mail, Search, Settings, User } from "lucide-react";
+import { Link, useNavigate } from "react-router-dom";
+import { toast } from "react-toastify";
+import { useUiStore } from "@/store/ui-store";
+
+// The palette opens with ⌘K on Apple platforms and Ctrl+K elsewhere.
+const shortcutLabel =
+  typeof navigator !== "undefined" && /Mac|iPhone|iPad/.test(navigator.platform) ? "⌘K" : "Ctrl K";
 
 const Header = () => {
-  const currentUser = users[0];
+  const currentUser = useCurrentUser();
+  const navigate = useNavigate();
+  const logOut = useLogOut();
+  const { data: unreadMessages = 0 } = useUnreadMessageCount();
+  const { data: unreadNotifications = 0 } = useUnreadNotificationCount();
+  const openCommandPalette = useUiStore((state) => state.setCommandPaletteOpen);
 
   return (
     <header className="sticky top-0 z-10 bg-neutral-950/80 backdrop-blur-md border-b border-neutral-800">
@@ -12,19 +36,63 @@ const Header = () => {
             <h1 className="text-xl font-bold tracking-tighter text-white">Societal</h1>
         </div>
         <div className="hidden lg:block w-full max-w-md">
-            {/* Placeholder for potential future global search */}
+          <button
+            onClick={() => openCommandPalette(true)}
+            className="w-full flex items-center space-x-3 bg-neutral-900 border border-neutral-800 rounded-full py-2 px-4 text-neutral-500 hover:border-neutral-700 transition-colors"
+          >
+            <Search className="w-5 h-5" />
+            <span className="flex-1 text-left">Search</span>
+            <kbd className="text-xs font-sans border border-neutral-700 rounded px-1.5 py-0.5">{shortcutLabel}</kbd>
+          </button>
         </div>
         <div className="flex items-center space-x-4">
-          <button className="p-2 rounded-full hover:bg-neutral-800 transition-colors">
+          <Link to="/messages" aria-label="Messages" className="relative p-2 rounded-full hover:bg-neutral-800 transition-colors">
             <Mail className="w-6 h-6 text-neutral-300" />
-          </button>
-          <button className="p-2 rounded-full hover:bg-neutral-800 transition-colors">
+            <CountBadge count={unreadMessages} className="absolute -top-0.5 -right-0.5" />
+          </Link>
+          <Link
+            to="/notifications"
+            aria-label="Notifications"
+            className="relative p-2 rounded-full hover:bg-neutral-800 transition-colors"
+          >
             <Bell className="w-6 h-6 text-neutral-300" />
-          </button>
-          <Avatar>
-            <AvatarImage src={currentUser.avatarUrl} alt={currentUser.name} />
-            <AvatarFallback>{currentUser.name.charAt(0)}</AvatarFallback>
-          </Avatar>
+            <CountBadge count={unreadNotifications} className="absolute -top-0.5 -right-0.5" />
+          </Link>
+          <DropdownMenu>
+            <DropdownMenuTrigger className="rounded-full" aria-label="Account menu">
+              <Avatar>
+                <AvatarImage src={currentUser.avatarUrl} alt={currentUser.name} />
+                <AvatarFallback>{currentUser.name.charAt(0)}</AvatarFallback>
+              </Avatar>
+            </DropdownMenuTrigger>
+            <DropdownMenuContent align="end" className="w-56 bg-neutral-900 border-neutral-800 text-white">
+              <DropdownMenuLabel>
+                <p className="truncate">{currentUser.name}</p>
+                <p className="truncate text-neutral-500 font-normal">@{currentUser.handle}</p>
+              </DropdownMenuLabel>
+              <DropdownMenuSeparator className="bg-neutral-800" />
+              <DropdownMenuItem
+                onClick={() => navigate(`/profile/${currentUser.handle}`)}
+                className="cursor-pointer hover:bg-neutral-800"
+              >
+                <User size={16} /> Profile
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() => navigate("/settings")}
+                className="cursor-pointer hover:bg-neutral-800"
+              >
+                <Settings size={16} /> Settings
+              </DropdownMenuItem>
+              <DropdownMenuItem
+                onClick={() =>
+                  logOut.mutate(undefined, { onError: () => toast.error("Couldn't log out. Please try again.") })
+                }
+                className="cursor-pointer hover:bg-neutral-800"
+              >
+                <LogOut size={16} /> Log out
+              </DropdownMenuItem>
+            </DropdownMenuContent>
+          </DropdownMenu>
         </div>
       </div>
     </header>
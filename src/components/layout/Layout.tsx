@@ -1,19 +1,30 @@
-import { Outlet } from "react-router-dom";
+import { Outlet, useLocation } from "react-router-dom";
 import Header from "./Header";
 import Sidebar from "./Sidebar";
 import RightSidebar from "./RightSidebar";
+import RouteErrorBoundary from "@/components/common/RouteErrorBoundary";
+import PostComposer from "@/components/post/PostComposer";
+import CommandPalette from "@/components/search/CommandPalette";
+import { useNotificationStream } from "@/hooks/use-notifications";
 
 const Layout = () => {
+  const location = useLocation();
+  useNotificationStream();
+
   return (
     <div className="bg-neutral-950 text-white min-h-screen font-sans">
       <Header />
       <div className="flex container mx-auto px-4">
         <Sidebar />
         <main className="flex-1 max-w-2xl mx-auto py-8">
-          <Outlet />
+          <RouteErrorBoundary resetKey={location.pathname}>
+            <Outlet />
+          </RouteErrorBoundary>
         </main>
         <RightSidebar />
       </div>
+      <PostComposer />
+      <CommandPalette />
     </div>
   );
 };
@@ -1,17 +1,24 @@
-import { Bell, Bookmark, Home, Mail, Search, User } from "lucide-react";
 import { Link, useLocation } from "react-router-dom";
+import CountBadge from "@/components/common/CountBadge";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useUnreadMessageCount } from "@/hooks/use-messages";
+import { useUnreadNotificationCount } from "@/hooks/use-notifications";
 import { cn } from "@/lib/utils";
+import { useUiStore } from "@/store/ui-store";
+import { navItems } from "./nav-items";
 
-const navItems = [
-  { name: "Home", href: "/", icon: Home },
-  { name: "Notifications", href: "/notifications", icon: Bell },
-  { name: "Messages", href: "#", icon: Mail },
-  { name: "Bookmarks", href: "#", icon: Bookmark },
-  { name: "Profile", href: "/profile/ava", icon: User },
-];
+// Sections with nested routes (a conversation under /messages) stay highlighted
+// on their sub-pages.
+const isActive = (pathname: string, href: string) =>
+  href === "/" ? pathname === href : pathname === href || pathname.startsWith(`${href}/`);
 
 const Sidebar = () => {
   const { pathname } = useLocation();
+  const currentUser = useCurrentUser();
+  const openComposer = useUiStore((state) => state.openComposer);
+  const { data: unreadMessages = 0 } = useUnreadMessageCount();
+  const { data: unreadNotifications = 0 } = useUnreadNotificationCount();
+  const badges: Record<string, number> = { Notifications: unreadNotifications, Messages: unreadMessages };
 
   return (
     <aside className="w-64 sticky top-0 h-screen py-8 pr-6 border-r border-neutral-800 hidden lg:block">
@@ -22,24 +29,28 @@ const Sidebar = () => {
           </Link>
         </div>
         <nav className="flex flex-col space-y-2">
-          {navItems.map((item) => (
+          {navItems(currentUser.handle).map((item) => (
             <Link
               key={item.name}
               to={item.href}
               className={cn(
                 "flex items-center space-x-4 px-4 py-3 rounded-full transition-colors duration-200",
-                pathname === item.href
+                isActive(pathname, item.href)
                   ? "bg-neutral-800 text-white font-semibold"
                   : "text-neutral-400 hover:bg-neutral-900 hover:text-white"
               )}
             >
               <item.icon className="w-6 h-6" />
               <span className="text-lg">{item.name}</span>
+              <CountBadge count={badges[item.name] ?? 0} />
             </Link>
           ))}
         </nav>
         <div className="mt-auto">
-          <button className="bg-sky-500 hover:bg-sky-600 text-white font-bold py-3 px-6 rounded-full w-full text-lg transition-colors duration-200">
+          <button
+            onClick={() => openComposer()}
+            className="bg-sky-500 hover:bg-sky-600 text-white font-bold py-3 px-6 rounded-full w-full text-lg transition-colors duration-200"
+          >
             Post
           </button>
         </div>
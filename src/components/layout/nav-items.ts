@@ -0,0 +1,10 @@
+import { Bell, Bookmark, Home, Mail, User } from "lucide-react";
+
+// Top-level destinations, shared by the sidebar and the ⌘K palette.
+export const navItems = (handle: string) => [
+  { name: "Home", href: "/", icon: Home },
+  { name: "Notifications", href: "/notifications", icon: Bell },
+  { name: "Messages", href: "/messages", icon: Mail },
+  { name: "Bookmarks", href: "/bookmarks", icon: Bookmark },
+  { name: "Profile", href: `/profile/${handle}`, icon: User },
+];
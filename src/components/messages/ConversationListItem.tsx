@@ -0,0 +1,49 @@
+import { Link } from "react-router-dom";
+import RelativeTime from "@/components/common/RelativeTime";
+import CountBadge from "@/components/common/CountBadge";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import type { Conversation } from "@/lib/data";
+import { cn } from "@/lib/utils";
+
+const ConversationListItem = ({ conversation }: { conversation: Conversation }) => {
+  const currentUser = useCurrentUser();
+  const { participant, lastMessage, unreadCount, isTyping } = conversation;
+  const unread = unreadCount > 0;
+
+  return (
+    <Link
+      to={`/messages/${conversation.id}`}
+      className="flex items-center space-x-3 p-4 border-b border-neutral-800 hover:bg-neutral-900/50 transition-colors duration-200"
+    >
+      <Avatar className="w-12 h-12 shrink-0">
+        <AvatarImage src={participant.avatarUrl} alt={participant.name} />
+        <AvatarFallback>{participant.name.charAt(0)}</AvatarFallback>
+      </Avatar>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center space-x-2">
+          <span className="font-bold truncate">{participant.name}</span>
+          <span className="text-neutral-500 truncate">@{participant.handle}</span>
+          {lastMessage && (
+            <>
+              <span className="text-neutral-500">·</span>
+              <RelativeTime date={lastMessage.timestamp} className="text-neutral-500 shrink-0" />
+            </>
+          )}
+        </div>
+        <p className={cn("truncate", unread ? "text-white font-semibold" : "text-neutral-500")}>
+          {isTyping ? (
+            <span className="text-sky-500">Typing…</span>
+          ) : lastMessage ? (
+            `${lastMessage.sender.handle === currentUser.handle ? "You: " : ""}${lastMessage.content}`
+          ) : (
+            "No messages yet"
+          )}
+        </p>
+      </div>
+      <CountBadge count={unreadCount} />
+    </Link>
+  );
+};
+
+export default ConversationListItem;
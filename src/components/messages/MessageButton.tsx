@@ -0,0 +1,36 @@
+import { Mail } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "react-toastify";
+import { Button } from "@/components/lightswind/button";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useStartConversation } from "@/hooks/use-messages";
+import type { User } from "@/lib/data";
+
+// Opens (or starts) the direct message thread with `user`. Nothing renders
+// for the viewer's own account.
+const MessageButton = ({ user }: { user: User }) => {
+  const currentUser = useCurrentUser();
+  const navigate = useNavigate();
+  const startConversation = useStartConversation();
+
+  if (currentUser.handle === user.handle) return null;
+
+  return (
+    <Button
+      variant="outline"
+      aria-label={`Message @${user.handle}`}
+      disabled={startConversation.isPending}
+      onClick={() =>
+        startConversation.mutate(user.handle, {
+          onSuccess: (conversation) => navigate(`/messages/${conversation.id}`),
+          onError: () => toast.error("Couldn't open the conversation. Please try again."),
+        })
+      }
+      className="rounded-full p-2 h-auto border-neutral-700 hover:bg-neutral-800"
+    >
+      <Mail />
+    </Button>
+  );
+};
+
+export default MessageButton;
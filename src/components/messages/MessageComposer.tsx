@@ -0,0 +1,73 @@
+import { useState } from "react";
+import { SendHorizontal } from "lucide-react";
+import { toast } from "react-toastify";
+import { useSendMessage, useTypingSignal } from "@/hooks/use-messages";
+import { MAX_MESSAGE_LENGTH } from "@/lib/api";
+
+interface MessageComposerProps {
+  conversationId: string;
+  /** Called right before a message is sent, e.g. to scroll to it. */
+  onSend?: () => void;
+}
+
+// Enter sends, Shift+Enter inserts a newline.
+const MessageComposer = ({ conversationId, onSend }: MessageComposerProps) => {
+  const [content, setContent] = useState("");
+  const sendMessage = useSendMessage(conversationId);
+  const typing = useTypingSignal(conversationId);
+
+  const send = () => {
+    const text = content.trim();
+    if (!text) return;
+    typing.stop();
+    onSend?.();
+    setContent("");
+    sendMessage.mutate(text, {
+      onError: (error) => {
+        setContent(text);
+        toast.error(error.message || "Couldn't send your message.");
+      },
+    });
+  };
+
+  return (
+    <form
+      onSubmit={(e) => {
+        e.preventDefault();
+        send();
+      }}
+      className="sticky bottom-0 bg-neutral-950 border-t border-neutral-800 p-3 flex items-end space-x-2"
+    >
+      <textarea
+        value={content}
+        onChange={(e) => {
+          setContent(e.target.value);
+          if (e.target.value) typing.onType();
+          else typing.stop();
+        }}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" && !e.shiftKey && !e.nativeEvent.isComposing) {
+            e.preventDefault();
+            send();
+          }
+        }}
+        onBlur={typing.stop}
+        rows={1}
+        maxLength={MAX_MESSAGE_LENGTH}
+        placeholder="Start a new message"
+        aria-label="Message"
+        className="flex-1 resize-none max-h-40 bg-neutral-900 rounded-2xl px-4 py-2.5 outline-none placeholder:text-neutral-500 field-sizing-content"
+      />
+      <button
+        type="submit"
+        disabled={!content.trim()}
+        className="p-2.5 rounded-full text-sky-500 hover:bg-sky-500/10 disabled:opacity-40"
+        aria-label="Send"
+      >
+        <SendHorizontal size={20} />
+      </button>
+    </form>
+  );
+};
+
+export default MessageComposer;
@@ -0,0 +1,79 @@
+import { useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { toast } from "react-toastify";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import { Dialog, DialogContent, DialogTitle } from "@/components/lightswind/dialog";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useStartConversation } from "@/hooks/use-messages";
+import { useUsers } from "@/hooks/use-users";
+
+interface NewMessageDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// Picks someone to message and opens (or creates) the conversation with them.
+const NewMessageDialog = ({ open, onOpenChange }: NewMessageDialogProps) => {
+  const navigate = useNavigate();
+  const currentUser = useCurrentUser();
+  const { data: users = [] } = useUsers();
+  const startConversation = useStartConversation();
+  const [query, setQuery] = useState("");
+
+  const needle = query.trim().replace(/^@/, "").toLowerCase();
+  const candidates = users.filter(
+    (user) =>
+      user.handle !== currentUser.handle &&
+      (user.handle.toLowerCase().includes(needle) || user.name.toLowerCase().includes(needle))
+  );
+
+  const start = (handle: string) =>
+    startConversation.mutate(handle, {
+      onSuccess: (conversation) => {
+        onOpenChange(false);
+        setQuery("");
+        navigate(`/messages/${conversation.id}`);
+      },
+      onError: (error) => toast.error(error.message),
+    });
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="bg-neutral-950 border-neutral-800 text-white max-w-md">
+        <DialogTitle className="text-xl font-bold">New message</DialogTitle>
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          placeholder="Search people"
+          className="w-full bg-transparent border-b border-neutral-800 py-3 outline-none placeholder:text-neutral-500"
+        />
+        <div className="max-h-80 overflow-y-auto -mx-6">
+          {candidates.length === 0 ? (
+            <p className="p-6 text-center text-neutral-500">No one matches “{query}”.</p>
+          ) : (
+            candidates.map((user) => (
+              <button
+                key={user.handle}
+                onClick={() => start(user.handle)}
+                disabled={startConversation.isPending}
+                className="w-full flex items-center space-x-3 px-6 py-3 text-left hover:bg-neutral-900 disabled:opacity-50"
+              >
+                <Avatar className="w-10 h-10">
+                  <AvatarImage src={user.avatarUrl} alt={user.name} />
+                  <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="font-bold truncate">{user.name}</p>
+                  <p className="text-neutral-500 truncate">@{user.handle}</p>
+                </div>
+              </button>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default NewMessageDialog;
@@ -0,0 +1,17 @@
+// Three bouncing dots in a received-message bubble.
+const TypingIndicator = ({ name }: { name: string }) => (
+  <div className="flex items-center space-x-2 px-4 py-2" aria-live="polite">
+    <div className="bg-neutral-800 rounded-2xl rounded-bl-md px-4 py-3 flex space-x-1" aria-hidden>
+      {[0, 150, 300].map((delay) => (
+        <span
+          key={delay}
+          className="w-2 h-2 rounded-full bg-neutral-400 animate-bounce"
+          style={{ animationDelay: `${delay}ms` }}
+        />
+      ))}
+    </div>
+    <span className="sr-only">{name} is typing</span>
+  </div>
+);
+
+export default TypingIndicator;
@@ -0,0 +1,30 @@
+import { Link } from "react-router-dom";
+import VerifiedBadge from "@/components/user/VerifiedBadge";
+import type { UserProfile } from "@/lib/data";
+
+const ActorLink = ({ actor }: { actor: UserProfile }) => (
+  <Link to={`/profile/${actor.handle}`} className="font-bold text-white hover:underline">
+    {actor.name}
+    {actor.verified && <VerifiedBadge className="inline ml-0.5 align-text-bottom" />}
+  </Link>
+);
+
+// "Jane", "Jane and Dev", or "Jane and 12 others".
+const ActorNames = ({ actors }: { actors: UserProfile[] }) => {
+  const [first, second] = actors;
+  if (actors.length === 1) return <ActorLink actor={first} />;
+  if (actors.length === 2) {
+    return (
+      <>
+        <ActorLink actor={first} /> and <ActorLink actor={second} />
+      </>
+    );
+  }
+  return (
+    <>
+      <ActorLink actor={first} /> and {actors.length - 1} others
+    </>
+  );
+};
+
+export default ActorNames;
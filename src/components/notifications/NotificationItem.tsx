@@ -0,0 +1,68 @@
+import { Link, useNavigate } from "react-router-dom";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import RelativeTime from "@/components/common/RelativeTime";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useMarkNotificationsRead } from "@/hooks/use-notifications";
+import type { NotificationGroup } from "@/lib/notifications";
+import { cn } from "@/lib/utils";
+import { notificationKinds } from "./notification-kinds";
+
+// Grouped rows show this many faces before the rest are summed up.
+const MAX_AVATARS = 6;
+
+// Links inside the row keep their own targets.
+const isInteractive = (target: EventTarget) => target instanceof Element && !!target.closest("a, button");
+
+// One (possibly grouped) notification. Clicking anywhere marks it read and,
+// outside its links, opens what it is about.
+const NotificationItem = ({ group }: { group: NotificationGroup }) => {
+  const viewer = useCurrentUser();
+  const navigate = useNavigate();
+  const markRead = useMarkNotificationsRead();
+  const kind = notificationKinds[group.type];
+  const Icon = kind.icon;
+
+  return (
+    <div
+      onClick={(e) => {
+        if (!group.read) markRead.mutate(group.notificationIds);
+        if (!isInteractive(e.target)) navigate(kind.href(group, viewer));
+      }}
+      className={cn(
+        "relative border-b border-neutral-800 p-4 flex space-x-4 items-start cursor-pointer hover:bg-neutral-900/50 transition-colors duration-200",
+        !group.read && "bg-sky-500/5"
+      )}
+    >
+      {!group.read && (
+        <span className="absolute top-4 right-4 w-2 h-2 rounded-full bg-sky-500" role="img" aria-label="Unread" />
+      )}
+      <div className="w-8 flex justify-end">
+        <Icon className={cn("w-6 h-6", kind.iconClassName)} />
+      </div>
+      <div className="w-full min-w-0">
+        {kind.showActors && (
+          <div className="flex -space-x-2 mb-2">
+            {group.actors.slice(0, MAX_AVATARS).map((actor) => (
+              <Link key={actor.handle} to={`/profile/${actor.handle}`} className="rounded-full ring-2 ring-neutral-950">
+                <Avatar className="w-8 h-8">
+                  <AvatarImage src={actor.avatarUrl} alt={actor.name} />
+                  <AvatarFallback>{actor.name.charAt(0)}</AvatarFallback>
+                </Avatar>
+              </Link>
+            ))}
+          </div>
+        )}
+        <p className="text-neutral-400">
+          {kind.message(group, viewer)}
+          <span className="text-neutral-500">
+            {" "}
+            · <RelativeTime date={group.timestamp} />
+          </span>
+        </p>
+        {group.post && <p className="text-neutral-500 mt-1 break-words">{group.post.content}</p>}
+      </div>
+    </div>
+  );
+};
+
+export default NotificationItem;
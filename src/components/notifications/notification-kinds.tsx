@@ -0,0 +1,81 @@
+import type { ReactNode } from "react";
+import { AtSign, Heart, MessageCircle, Repeat, UserPlus, type LucideIcon } from "lucide-react";
+import type { NotificationType, User } from "@/lib/data";
+import type { NotificationGroup } from "@/lib/notifications";
+import ActorNames from "./ActorNames";
+
+// How each kind of notification is shown.
+export interface NotificationKind {
+  icon: LucideIcon;
+  iconClassName: string;
+  /** The sentence describing what happened. */
+  message: (group: NotificationGroup, viewer: User) => ReactNode;
+  /** Where clicking the row leads. */
+  href: (group: NotificationGroup, viewer: User) => string;
+  /** Show the actors as a row of avatars above the message. */
+  showActors: boolean;
+}
+
+const postHref = (group: NotificationGroup) => (group.post ? `/post/${group.post.id}` : "/notifications");
+
+// Keyed by every `NotificationType`, so adding a kind to the union is a type
+// error here until it has an icon, copy and target.
+export const notificationKinds: Record<NotificationType, NotificationKind> = {
+  like: {
+    icon: Heart,
+    iconClassName: "text-pink-500",
+    message: (group) => (
+      <>
+        <ActorNames actors={group.actors} /> liked your post
+      </>
+    ),
+    href: postHref,
+    showActors: true,
+  },
+  repost: {
+    icon: Repeat,
+    iconClassName: "text-green-500",
+    message: (group) => (
+      <>
+        <ActorNames actors={group.actors} /> reposted your post
+      </>
+    ),
+    href: postHref,
+    showActors: true,
+  },
+  follow: {
+    icon: UserPlus,
+    iconClassName: "text-sky-500",
+    message: (group) => (
+      <>
+        <ActorNames actors={group.actors} /> followed you
+      </>
+    ),
+    // One new follower opens their profile; several open the whole list.
+    href: (group, viewer) =>
+      group.actors.length === 1 ? `/profile/${group.actors[0].handle}` : `/profile/${viewer.handle}/followers`,
+    showActors: true,
+  },
+  mention: {
+    icon: AtSign,
+    iconClassName: "text-sky-500",
+    message: (group) => (
+      <>
+        <ActorNames actors={group.actors} /> mentioned you in a post
+      </>
+    ),
+    href: postHref,
+    showActors: true,
+  },
+  reply: {
+    icon: MessageCircle,
+    iconClassName: "text-sky-500",
+    message: (group) => (
+      <>
+        <ActorNames actors={group.actors} /> replied to your post
+      </>
+    ),
+    href: postHref,
+    showActors: true,
+  },
+};
@@ -0,0 +1,61 @@
+import { useState } from "react";
+import MediaLightbox from "@/components/post/MediaLightbox";
+import type { PostMedia } from "@/lib/data";
+import { cn } from "@/lib/utils";
+
+// Grid placement per image count: one image keeps its own shape, two sit side
+// by side, three put the first on the left at full height, four make a 2×2.
+const layouts: Record<number, string[]> = {
+  2: ["row-span-2", "row-span-2"],
+  3: ["row-span-2", "", ""],
+  4: ["", "", "", ""],
+};
+
+// A post's images, each opening the lightbox at that image.
+const MediaGallery = ({ media, className }: { media: PostMedia[]; className?: string }) => {
+  const [open, setOpen] = useState<number | null>(null);
+  if (media.length === 0) return null;
+
+  const cells = layouts[media.length];
+
+  return (
+    <>
+      <div
+        className={cn(
+          "rounded-2xl border border-neutral-800 overflow-hidden",
+          cells && "grid grid-cols-2 grid-rows-2 gap-0.5 aspect-video",
+          className
+        )}
+      >
+        {media.map((item, index) => (
+          <button
+            key={index}
+            onClick={() => setOpen(index)}
+            className={cn(
+              "relative block w-full overflow-hidden bg-neutral-900",
+              cells?.[index]
+            )}
+            aria-label={item.alt ? `View image: ${item.alt}` : `View image ${index + 1} of ${media.length}`}
+          >
+            <img
+              src={item.url}
+              alt={item.alt}
+              loading="lazy"
+              className={cn(
+                "w-full object-cover hover:opacity-90 transition-opacity",
+                cells ? "h-full" : "h-auto max-h-[510px]"
+              )}
+            />
+            {item.alt && (
+              <span className="absolute bottom-2 left-2 px-1.5 py-0.5 rounded bg-black/70 text-xs font-bold">ALT</span>
+            )}
+          </button>
+        ))}
+      </div>
+
+      {open !== null && <MediaLightbox media={media} startIndex={open} onClose={() => setOpen(null)} />}
+    </>
+  );
+};
+
+export default MediaGallery;
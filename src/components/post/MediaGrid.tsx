@@ -0,0 +1,25 @@
+import { Link } from "react-router-dom";
+import { Copy } from "lucide-react";
+import type { Post } from "@/lib/data";
+
+// Square thumbnails of image posts, three to a row, each opening its post.
+// Posts with several images show the first, marked as a set.
+const MediaGrid = ({ posts }: { posts: Post[] }) => (
+  <div className="grid grid-cols-3 gap-0.5 p-0.5">
+    {posts.map((post) => (
+      <Link key={post.id} to={`/post/${post.id}`} className="relative aspect-square overflow-hidden bg-neutral-900">
+        <img
+          src={post.media?.[0].url}
+          alt={post.media?.[0].alt || post.content || `Image posted by @${post.author.handle}`}
+          loading="lazy"
+          className="w-full h-full object-cover hover:opacity-80 transition-opacity"
+        />
+        {post.media && post.media.length > 1 && (
+          <Copy size={18} className="absolute top-2 right-2 drop-shadow" aria-label={`${post.media.length} images`} />
+        )}
+      </Link>
+    ))}
+  </div>
+);
+
+export default MediaGrid;
@@ -0,0 +1,220 @@
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { X, ZoomIn, ZoomOut } from "lucide-react";
+import {
+  Carousel,
+  CarouselContent,
+  CarouselItem,
+  CarouselNext,
+  CarouselPrevious,
+  type CarouselApi,
+} from "@/components/lightswind/carousel";
+import type { PostMedia } from "@/lib/data";
+import { cn } from "@/lib/utils";
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 4;
+const ZOOM_STEP = 0.5;
+// Double-clicking a fitted image jumps straight to this.
+const DOUBLE_CLICK_ZOOM = 2.5;
+
+interface Pan {
+  x: number;
+  y: number;
+}
+
+interface Drag {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  pan: Pan;
+}
+
+const NO_PAN: Pan = { x: 0, y: 0 };
+
+const clampZoom = (zoom: number) => Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+
+// Keeps a zoomed image covering its frame: at `zoom` it overhangs each side
+// by (zoom - 1) / 2 of the frame.
+const clampPan = ({ x, y }: Pan, zoom: number, frame: DOMRect): Pan => {
+  const maxX = ((zoom - 1) * frame.width) / 2;
+  const maxY = ((zoom - 1) * frame.height) / 2;
+  return { x: Math.min(maxX, Math.max(-maxX, x)), y: Math.min(maxY, Math.max(-maxY, y)) };
+};
+
+const navButtonClassName =
+  "border-none bg-black/60 text-white hover:bg-black/80 hover:text-white disabled:opacity-0 w-10 h-10";
+
+interface MediaLightboxProps {
+  media: PostMedia[];
+  /** Index of the image to open at. */
+  startIndex: number;
+  onClose: () => void;
+}
+
+// Full-screen view of a post's images. Swipe or use the arrows to move
+// between them; zoom with the buttons, +/- or a double click, then drag to
+// look around. Swiping is off while zoomed so the drag pans instead.
+const MediaLightbox = ({ media, startIndex, onClose }: MediaLightboxProps) => {
+  const [api, setApi] = useState<CarouselApi>();
+  const [index, setIndex] = useState(startIndex);
+  const [zoom, setZoom] = useState(MIN_ZOOM);
+  const [pan, setPan] = useState(NO_PAN);
+  const regionRef = useRef<HTMLDivElement>(null);
+  const drag = useRef<Drag | null>(null);
+
+  const zoomTo = (next: number) => {
+    const clamped = clampZoom(next);
+    setZoom(clamped);
+    if (clamped === MIN_ZOOM) setPan(NO_PAN);
+  };
+
+  useEffect(() => {
+    regionRef.current?.focus();
+  }, []);
+
+  useEffect(() => {
+    if (!api) return;
+    const onSelect = () => {
+      setIndex(api.selectedScrollSnap());
+      setZoom(MIN_ZOOM);
+      setPan(NO_PAN);
+    };
+    api.on("select", onSelect);
+    return () => {
+      api.off("select", onSelect);
+    };
+  }, [api]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      // The carousel handles arrows itself while it has focus.
+      if (e.defaultPrevented) return;
+      if (e.key === "Escape") {
+        onClose();
+      } else if (e.key === "ArrowLeft") {
+        api?.scrollPrev();
+      } else if (e.key === "ArrowRight") {
+        api?.scrollNext();
+      } else if (e.key === "+" || e.key === "=") {
+        zoomTo(zoom + ZOOM_STEP);
+      } else if (e.key === "-") {
+        zoomTo(zoom - ZOOM_STEP);
+      } else if (e.key === "0") {
+        zoomTo(MIN_ZOOM);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (zoom === MIN_ZOOM) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, pan };
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drag.current?.pointerId !== e.pointerId) return;
+    const { startX, startY, pan: start } = drag.current;
+    const next = { x: start.x + e.clientX - startX, y: start.y + e.clientY - startY };
+    setPan(clampPan(next, zoom, e.currentTarget.getBoundingClientRect()));
+  };
+
+  const endDrag = () => {
+    drag.current = null;
+  };
+
+  const current = media[index];
+
+  return createPortal(
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label="Image viewer"
+      className="fixed inset-0 z-50 bg-black/95 flex flex-col text-white"
+    >
+      <div className="flex items-center justify-between p-3">
+        <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10" aria-label="Close">
+          <X size={20} />
+        </button>
+        {media.length > 1 && (
+          <span className="text-sm tabular-nums text-neutral-300">
+            {index + 1} / {media.length}
+          </span>
+        )}
+        <div className="flex items-center gap-1">
+          <button
+            onClick={() => zoomTo(zoom - ZOOM_STEP)}
+            disabled={zoom === MIN_ZOOM}
+            className="p-2 rounded-full hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent"
+            aria-label="Zoom out"
+          >
+            <ZoomOut size={20} />
+          </button>
+          <button
+            onClick={() => zoomTo(zoom + ZOOM_STEP)}
+            disabled={zoom === MAX_ZOOM}
+            className="p-2 rounded-full hover:bg-white/10 disabled:opacity-40 disabled:hover:bg-transparent"
+            aria-label="Zoom in"
+          >
+            <ZoomIn size={20} />
+          </button>
+        </div>
+      </div>
+
+      <Carousel
+        ref={regionRef}
+        tabIndex={-1}
+        setApi={setApi}
+        opts={{ startIndex, watchDrag: zoom === MIN_ZOOM }}
+        className="flex-1 min-h-0 outline-none [&>div]:h-full"
+        aria-label="Images"
+      >
+        <CarouselContent className="h-full">
+          {media.map((item, i) => (
+            <CarouselItem key={i} className="h-full flex items-center justify-center overflow-hidden">
+              <div
+                className={cn(
+                  "relative flex items-center justify-center w-full h-full touch-pan-y select-none",
+                  i === index && zoom > MIN_ZOOM && "cursor-grab touch-none"
+                )}
+                onPointerDown={i === index ? onPointerDown : undefined}
+                onPointerMove={i === index ? onPointerMove : undefined}
+                onPointerUp={endDrag}
+                onPointerCancel={endDrag}
+                onDoubleClick={() => {
+                  setPan(NO_PAN);
+                  setZoom(zoom === MIN_ZOOM ? DOUBLE_CLICK_ZOOM : MIN_ZOOM);
+                }}
+              >
+                <img
+                  src={item.url}
+                  alt={item.alt}
+                  draggable={false}
+                  className="max-w-full max-h-full object-contain"
+                  style={
+                    i === index
+                      ? { transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})` }
+                      : undefined
+                  }
+                />
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {media.length > 1 && (
+          <>
+            <CarouselPrevious className={cn("left-4", navButtonClassName)} />
+            <CarouselNext className={cn("right-4", navButtonClassName)} />
+          </>
+        )}
+      </Carousel>
+
+      <p className="min-h-12 p-3 text-center text-sm text-neutral-300">{current?.alt}</p>
+    </div>,
+    document.body
+  );
+};
+
+export default MediaLightbox;
@@ -0,0 +1,66 @@
+import { BarChart2, Heart, MessageCircle, Repeat } from "lucide-react";
+import type { Post } from "@/lib/data";
+import { OPTIMISTIC_ID_PREFIX, useToggleLike, useToggleRepost } from "@/hooks/use-posts";
+import { useUiStore } from "@/store/ui-store";
+import { cn } from "@/lib/utils";
+
+const PostActions = ({ post, className }: { post: Post; className?: string }) => {
+  const like = useToggleLike(post);
+  const repost = useToggleRepost(post);
+  const openComposer = useUiStore((state) => state.openComposer);
+  // Posts still waiting on the backend have no id to act on yet.
+  const disabled = post.id.startsWith(OPTIMISTIC_ID_PREFIX);
+
+  return (
+    <div className={cn("flex justify-between mt-4 text-neutral-500 max-w-sm", className)}>
+      <button
+        onClick={() => openComposer(post)}
+        disabled={disabled}
+        aria-label="Reply"
+        className="flex items-center space-x-2 hover:text-sky-500 group disabled:opacity-50"
+      >
+        <div className="p-2 rounded-full group-hover:bg-sky-500/10">
+          <MessageCircle size={20} />
+        </div>
+        <span>{post.comments}</span>
+      </button>
+      <button
+        onClick={repost.toggle}
+        disabled={disabled}
+        aria-label={repost.active ? "Undo repost" : "Repost"}
+        aria-pressed={repost.active}
+        className={cn(
+          "flex items-center space-x-2 hover:text-green-500 group disabled:opacity-50",
+          repost.active && "text-green-500"
+        )}
+      >
+        <div className="p-2 rounded-full group-hover:bg-green-500/10">
+          <Repeat size={20} />
+        </div>
+        <span>{post.reposts}</span>
+      </button>
+      <button
+        onClick={like.toggle}
+        disabled={disabled}
+        aria-label={like.active ? "Unlike" : "Like"}
+        aria-pressed={like.active}
+        className={cn(
+          "flex items-center space-x-2 hover:text-pink-500 group disabled:opacity-50",
+          like.active && "text-pink-500"
+        )}
+      >
+        <div className="p-2 rounded-full group-hover:bg-pink-500/10">
+            <Heart size={20} className={cn(like.active && "fill-current")} />
+        </div>
+        <span>{post.likes}</span>
+      </button>
+      <button className="flex items-center space-x-2 hover:text-sky-500 group">
+         <div className="p-2 rounded-full group-hover:bg-sky-500/10">
+          <BarChart2 size={20} />
+        </div>
+      </button>
+    </div>
+  );
+};
+
+export default PostActions;
@@ -0,0 +1,70 @@
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import type { Post } from "@/lib/data";
+import { Link, useNavigate } from "react-router-dom";
+import { cn } from "@/lib/utils";
+import { OPTIMISTIC_ID_PREFIX } from "@/hooks/use-posts";
+import RelativeTime from "@/components/common/RelativeTime";
+import VerifiedBadge from "@/components/user/VerifiedBadge";
+import MediaGallery from "./MediaGallery";
+import PostActions from "./PostActions";
+import PostContent from "./PostContent";
+import PostMenu from "./PostMenu";
+
+interface PostCardProps {
+  post: Post;
+  /** Draws a line under the avatar joining this post to the one below. */
+  connected?: boolean;
+  className?: string;
+}
+
+// Clicks on links, buttons and overlays inside the card keep their own
+// behaviour. Menus and dialogs render in portals but still bubble here.
+const isInteractive = (target: EventTarget) =>
+  target instanceof Element && !!target.closest("a, button, [role=dialog], [role=menu]");
+
+const PostCard: React.FC<PostCardProps> = ({ post, connected = false, className }) => {
+  const navigate = useNavigate();
+
+  return (
+    <div
+      onClick={(e) => {
+        if (isInteractive(e.target) || window.getSelection()?.toString()) return;
+        if (!post.id.startsWith(OPTIMISTIC_ID_PREFIX)) navigate(`/post/${post.id}`);
+      }}
+      className={cn(
+        "p-4 flex space-x-4 cursor-pointer hover:bg-neutral-900/30 transition-colors duration-200",
+        !connected && "border-b border-neutral-800",
+        className
+      )}
+    >
+      <div className="flex flex-col items-center">
+        <Link to={`/profile/${post.author.handle}`}>
+          <Avatar className="w-12 h-12">
+            <AvatarImage src={post.author.avatarUrl} />
+            <AvatarFallback>{post.author.name.charAt(0)}</AvatarFallback>
+          </Avatar>
+        </Link>
+        {connected && <div className="w-0.5 flex-1 mt-2 -mb-4 bg-neutral-800" />}
+      </div>
+      <div className="w-full min-w-0">
+        <div className="flex items-center justify-between">
+          <div className="flex items-center space-x-2">
+            <Link to={`/profile/${post.author.handle}`} className="font-bold hover:underline">{post.author.name}</Link>
+            {post.author.verified && <VerifiedBadge />}
+            <span className="text-neutral-500">@{post.author.handle}</span>
+            <span className="text-neutral-500">·</span>
+            <Link to={`/post/${post.id}`} className="text-neutral-500 hover:underline">
+              <RelativeTime date={post.timestamp} />
+            </Link>
+          </div>
+          <PostMenu post={post} />
+        </div>
+        <PostContent content={post.content} className="mt-2 text-white" />
+        {post.media && <MediaGallery media={post.media} className="mt-3" />}
+        <PostActions post={post} />
+      </div>
+    </div>
+  );
+};
+
+export default PostCard;
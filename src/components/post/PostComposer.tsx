@@ -0,0 +1,349 @@
+import { useMemo, useRef, useState } from "react";
+import { ImagePlus, X } from "lucide-react";
+import { toast } from "react-toastify";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import { Dialog, DialogContent, DialogTitle } from "@/components/lightswind/dialog";
+import { Input } from "@/components/lightswind/input";
+import { Textarea } from "@/components/lightswind/textarea";
+import { useCreatePost } from "@/hooks/use-posts";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useHashtagSuggestions } from "@/hooks/use-search";
+import { useUsers } from "@/hooks/use-users";
+import { MAX_ALT_TEXT_LENGTH, MAX_POST_LENGTH, MAX_POST_MEDIA, UPLOAD_IMAGE_TYPES } from "@/lib/api";
+import { applySuggestion, getActiveToken, type ActiveToken } from "@/lib/compose";
+import type { PostMedia } from "@/lib/data";
+import { MAX_IMAGE_BYTES, readAsDataUrl } from "@/lib/images";
+import { useUiStore } from "@/store/ui-store";
+import { cn } from "@/lib/utils";
+
+const MAX_SUGGESTIONS = 5;
+
+interface Suggestion {
+  value: string;
+  label: string;
+  detail?: string;
+  avatarUrl?: string;
+}
+
+const CharacterCounter = ({ length }: { length: number }) => {
+  const remaining = MAX_POST_LENGTH - length;
+  return (
+    <span
+      className={cn(
+        "text-sm tabular-nums",
+        remaining < 0 ? "text-red-500" : remaining <= 20 ? "text-yellow-500" : "text-neutral-500"
+      )}
+    >
+      {remaining}
+    </span>
+  );
+};
+
+const PostComposer = () => {
+  const isOpen = useUiStore((state) => state.isComposerOpen);
+  const setOpen = useUiStore((state) => state.setComposerOpen);
+  const openComposer = useUiStore((state) => state.openComposer);
+  const replyTo = useUiStore((state) => state.composerReplyTo);
+  const currentUser = useCurrentUser();
+  const { data: users = [] } = useUsers();
+  const createPost = useCreatePost();
+
+  const [content, setContent] = useState("");
+  const [media, setMedia] = useState<PostMedia[]>([]);
+  const [editingAlt, setEditingAlt] = useState<number | null>(null);
+  const [token, setToken] = useState<ActiveToken | null>(null);
+  const [highlighted, setHighlighted] = useState(0);
+  const textareaRef = useRef<HTMLTextAreaElement>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const { data: hashtags = [] } = useHashtagSuggestions(
+    token?.trigger === "#" ? token.query.toLowerCase() : "",
+    MAX_SUGGESTIONS
+  );
+
+  const suggestions = useMemo<Suggestion[]>(() => {
+    if (!token) return [];
+    const query = token.query.toLowerCase();
+    if (token.trigger === "@") {
+      return users
+        .filter((u) => u.handle.toLowerCase().includes(query) || u.name.toLowerCase().includes(query))
+        .slice(0, MAX_SUGGESTIONS)
+        .map((u) => ({ value: u.handle, label: u.name, detail: `@${u.handle}`, avatarUrl: u.avatarUrl }));
+    }
+    // Kept while a newer query settles, so only show tags that still fit.
+    return hashtags.filter((tag) => tag.includes(query)).map((tag) => ({ value: tag, label: `#${tag}` }));
+  }, [token, users, hashtags]);
+
+  const length = content.trim().length;
+  const canSubmit = (length > 0 || media.length > 0) && length <= MAX_POST_LENGTH;
+
+  const reset = () => {
+    setContent("");
+    setMedia([]);
+    setEditingAlt(null);
+    setToken(null);
+  };
+
+  const updateToken = (text: string, caret: number) => {
+    setToken(getActiveToken(text, caret));
+    setHighlighted(0);
+  };
+
+  const choose = (suggestion: Suggestion) => {
+    if (!token) return;
+    const next = applySuggestion(content, token, suggestion.value);
+    setContent(next.text);
+    setToken(null);
+    requestAnimationFrame(() => {
+      textareaRef.current?.focus();
+      textareaRef.current?.setSelectionRange(next.caret, next.caret);
+    });
+  };
+
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+    if (suggestions.length > 0) {
+      if (e.key === "ArrowDown" || e.key === "ArrowUp") {
+        e.preventDefault();
+        const step = e.key === "ArrowDown" ? 1 : -1;
+        setHighlighted((i) => (i + step + suggestions.length) % suggestions.length);
+        return;
+      }
+      if (e.key === "Enter" || e.key === "Tab") {
+        e.preventDefault();
+        choose(suggestions[highlighted]);
+        return;
+      }
+      if (e.key === "Escape") {
+        e.stopPropagation();
+        setToken(null);
+        return;
+      }
+    }
+    if (e.key === "Enter" && (e.metaKey || e.ctrlKey) && canSubmit) {
+      e.preventDefault();
+      submit();
+    }
+  };
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files ?? []);
+    e.target.value = "";
+    if (files.length === 0) return;
+    if (files.some((file) => !UPLOAD_IMAGE_TYPES.includes(file.type))) {
+      toast.error("Only PNG, JPEG and WebP images can be attached.");
+      return;
+    }
+    if (files.some((file) => file.size > MAX_IMAGE_BYTES)) {
+      toast.error("Images must be 5 MB or smaller.");
+      return;
+    }
+    if (media.length + files.length > MAX_POST_MEDIA) {
+      toast.error(`You can attach up to ${MAX_POST_MEDIA} images.`);
+      return;
+    }
+    try {
+      const urls = await Promise.all(files.map(readAsDataUrl));
+      setMedia((current) => [...current, ...urls.map((url) => ({ url, alt: "" }))].slice(0, MAX_POST_MEDIA));
+    } catch {
+      toast.error("Only PNG, JPEG and WebP images can be attached.");
+    }
+  };
+
+  const removeImage = (index: number) => {
+    setMedia((current) => current.filter((_, i) => i !== index));
+    setEditingAlt(null);
+  };
+
+  const setAlt = (index: number, alt: string) =>
+    setMedia((current) => current.map((item, i) => (i === index ? { ...item, alt } : item)));
+
+  const submit = () => {
+    if (!canSubmit) return;
+    const input = { content, media, replyTo: replyTo?.id };
+    const parent = replyTo;
+    // Close right away: the post is already at the top of the feed.
+    reset();
+    setOpen(false);
+    createPost.mutate(input, {
+      onError: (error) => {
+        setContent(input.content);
+        setMedia(input.media);
+        openComposer(parent ?? undefined);
+        toast.error(error.message || "Your post couldn't be sent.");
+      },
+    });
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={setOpen}>
+      <DialogContent className="bg-neutral-950 border-neutral-800 text-white max-w-xl">
+        <DialogTitle className="sr-only">{replyTo ? "Reply" : "Create post"}</DialogTitle>
+        {replyTo && (
+          <div className="flex space-x-4 pt-6">
+            <Avatar className="w-12 h-12 shrink-0">
+              <AvatarImage src={replyTo.author.avatarUrl} />
+              <AvatarFallback>{replyTo.author.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p>
+                <span className="font-bold">{replyTo.author.name}</span>{" "}
+                <span className="text-neutral-500">@{replyTo.author.handle}</span>
+              </p>
+              <p className="text-neutral-300 line-clamp-3">{replyTo.content}</p>
+              <p className="mt-2 text-sm text-neutral-500">
+                Replying to <span className="text-sky-500">@{replyTo.author.handle}</span>
+              </p>
+            </div>
+          </div>
+        )}
+        <div className="flex space-x-4 pt-6">
+          <Avatar className="w-12 h-12 shrink-0">
+            <AvatarImage src={currentUser.avatarUrl} />
+            <AvatarFallback>{currentUser.name.charAt(0)}</AvatarFallback>
+          </Avatar>
+          <div className="w-full relative">
+            <Textarea
+              ref={textareaRef}
+              autoFocus
+              value={content}
+              placeholder={replyTo ? "Post your reply" : "What's happening?"}
+              aria-label="Post content"
+              className="min-h-[120px] resize-none border-none bg-transparent text-lg text-white placeholder:text-neutral-500 focus-visible:ring-0 focus-visible:ring-offset-0 px-0"
+              onChange={(e) => {
+                setContent(e.target.value);
+                updateToken(e.target.value, e.target.selectionStart);
+              }}
+              onClick={(e) => updateToken(content, e.currentTarget.selectionStart)}
+              onKeyDown={handleKeyDown}
+            />
+
+            {suggestions.length > 0 && (
+              <ul
+                role="listbox"
+                className="absolute left-0 right-0 z-10 mt-1 rounded-xl border border-neutral-800 bg-neutral-900 shadow-lg overflow-hidden"
+              >
+                {suggestions.map((suggestion, index) => (
+                  <li
+                    key={suggestion.value}
+                    role="option"
+                    aria-selected={index === highlighted}
+                    onMouseDown={(e) => {
+                      e.preventDefault();
+                      choose(suggestion);
+                    }}
+                    onMouseEnter={() => setHighlighted(index)}
+                    className={cn(
+                      "flex items-center space-x-3 px-4 py-2 cursor-pointer",
+                      index === highlighted && "bg-neutral-800"
+                    )}
+                  >
+                    {suggestion.avatarUrl && (
+                      <Avatar className="w-8 h-8">
+                        <AvatarImage src={suggestion.avatarUrl} />
+                        <AvatarFallback>{suggestion.label.charAt(0)}</AvatarFallback>
+                      </Avatar>
+                    )}
+                    <div>
+                      <p className="font-semibold">{suggestion.label}</p>
+                      {suggestion.detail && <p className="text-sm text-neutral-500">{suggestion.detail}</p>}
+                    </div>
+                  </li>
+                ))}
+              </ul>
+            )}
+
+            {media.length > 0 && (
+              <div className={cn("mt-3 grid gap-2", media.length > 1 && "grid-cols-2")}>
+                {media.map((item, index) => (
+                  <div key={index} className="relative rounded-2xl border border-neutral-800 overflow-hidden">
+                    <img
+                      src={item.url}
+                      alt={item.alt || `Attachment ${index + 1}`}
+                      className={cn("w-full object-cover", media.length > 1 ? "h-40" : "max-h-80")}
+                    />
+                    <button
+                      onClick={() => setEditingAlt(editingAlt === index ? null : index)}
+                      className={cn(
+                        "absolute bottom-2 left-2 px-2 py-0.5 rounded bg-black/70 hover:bg-black/90 text-xs font-bold",
+                        editingAlt === index && "ring-2 ring-sky-500"
+                      )}
+                      aria-label={`Edit alt text for image ${index + 1}`}
+                      aria-pressed={editingAlt === index}
+                    >
+                      {item.alt ? "ALT ✓" : "+ALT"}
+                    </button>
+                    <button
+                      onClick={() => removeImage(index)}
+                      className="absolute top-2 right-2 p-1.5 rounded-full bg-black/70 hover:bg-black/90"
+                      aria-label={`Remove image ${index + 1}`}
+                    >
+                      <X size={16} />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            {editingAlt !== null && media[editingAlt] && (
+              <div className="mt-3">
+                <div className="flex justify-between text-sm mb-1">
+                  <label htmlFor="alt-text" className="text-neutral-400">
+                    Describe image {editingAlt + 1} for people who can't see it
+                  </label>
+                  <span className="tabular-nums text-neutral-500">
+                    {media[editingAlt].alt.length}/{MAX_ALT_TEXT_LENGTH}
+                  </span>
+                </div>
+                <Input
+                  id="alt-text"
+                  autoFocus
+                  value={media[editingAlt].alt}
+                  maxLength={MAX_ALT_TEXT_LENGTH}
+                  onChange={(e) => setAlt(editingAlt, e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") {
+                      e.preventDefault();
+                      setEditingAlt(null);
+                    }
+                  }}
+                  className="bg-transparent border-neutral-700 text-white focus:border-sky-500"
+                />
+              </div>
+            )}
+
+            <div className="flex items-center justify-between border-t border-neutral-800 mt-4 pt-3">
+              <button
+                onClick={() => fileInputRef.current?.click()}
+                disabled={media.length >= MAX_POST_MEDIA}
+                className="p-2 rounded-full text-sky-500 hover:bg-sky-500/10 disabled:opacity-50"
+                aria-label="Attach images"
+              >
+                <ImagePlus size={20} />
+              </button>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={UPLOAD_IMAGE_TYPES.join(",")}
+                multiple
+                hidden
+                onChange={handleFiles}
+              />
+              <div className="flex items-center space-x-4">
+                <CharacterCounter length={length} />
+                <button
+                  onClick={submit}
+                  disabled={!canSubmit}
+                  className="bg-sky-500 hover:bg-sky-600 text-white font-bold py-2 px-5 rounded-full transition-colors duration-200 disabled:opacity-50 disabled:hover:bg-sky-500"
+                >
+                  {replyTo ? "Reply" : "Post"}
+                </button>
+              </div>
+            </div>
+          </div>
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default PostComposer;
@@ -0,0 +1,61 @@
+import { useMemo } from "react";
+import { Link } from "react-router-dom";
+import { displayUrl, isEmojiOnly, tokenize } from "@/lib/post-text";
+import { cn } from "@/lib/utils";
+
+interface PostContentProps {
+  content: string;
+  className?: string;
+}
+
+const linkClassName = "text-sky-500 hover:underline";
+
+// Post text with hashtags, mentions and links turned into links.
+const PostContent = ({ content, className }: PostContentProps) => {
+  const segments = useMemo(() => tokenize(content), [content]);
+
+  return (
+    <p className={cn("whitespace-pre-wrap break-words", isEmojiOnly(segments) && "text-4xl leading-tight", className)}>
+      {segments.map((segment, index) => {
+        switch (segment.type) {
+          case "hashtag":
+            return (
+              <Link key={index} to={`/hashtag/${segment.tag}`} className={linkClassName}>
+                {segment.text}
+              </Link>
+            );
+          case "mention":
+            return (
+              <Link key={index} to={`/profile/${segment.handle}`} className={linkClassName}>
+                {segment.text}
+              </Link>
+            );
+          case "url":
+            return (
+              <a
+                key={index}
+                href={segment.href}
+                target="_blank"
+                rel="noopener noreferrer nofollow"
+                title={segment.href}
+                className={linkClassName}
+              >
+                {displayUrl(segment.text)}
+              </a>
+            );
+          case "emoji":
+            // Emoji glyphs render a touch small next to body text.
+            return (
+              <span key={index} className="text-[1.15em] leading-none">
+                {segment.text}
+              </span>
+            );
+          case "text":
+            return segment.text;
+        }
+      })}
+    </p>
+  );
+};
+
+export default PostContent;
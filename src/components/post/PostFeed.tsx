@@ -0,0 +1,94 @@
+import { useLayoutEffect, useRef, useState } from "react";
+import { useNavigationType } from "react-router-dom";
+import { useWindowVirtualizer, type VirtualItem } from "@tanstack/react-virtual";
+import LoadMore from "@/components/common/LoadMore";
+import PostCard from "@/components/post/PostCard";
+import type { Post } from "@/lib/data";
+
+const ESTIMATED_POST_HEIGHT = 180;
+const OVERSCAN = 5;
+
+interface SavedScroll {
+  offset: number;
+  measurements: VirtualItem[];
+}
+
+// Where each list was left, so the back button returns the reader to the
+// same post instead of the top of a freshly estimated list.
+const savedScroll = new Map<string, SavedScroll>();
+
+interface PostFeedProps {
+  posts: Post[];
+  hasMore: boolean;
+  isLoadingMore: boolean;
+  onLoadMore: () => void;
+  /** Identifies the list for scroll restoration, e.g. the feed kind. */
+  restoreKey: string;
+}
+
+// Window-scrolled list that only mounts the PostCards near the viewport.
+const PostFeed = ({ posts, hasMore, isLoadingMore, onLoadMore, restoreKey }: PostFeedProps) => {
+  const listRef = useRef<HTMLDivElement>(null);
+  const navigationType = useNavigationType();
+  const [saved] = useState(() => (navigationType === "POP" ? savedScroll.get(restoreKey) : undefined));
+  const [scrollMargin, setScrollMargin] = useState(0);
+  const lastOffset = useRef(saved?.offset ?? 0);
+
+  const virtualizer = useWindowVirtualizer({
+    count: posts.length,
+    estimateSize: () => ESTIMATED_POST_HEIGHT,
+    overscan: OVERSCAN,
+    scrollMargin,
+    getItemKey: (index) => posts[index].id,
+    initialOffset: saved?.offset,
+    initialMeasurementsCache: saved?.measurements,
+    onChange: (instance) => {
+      lastOffset.current = instance.scrollOffset ?? lastOffset.current;
+    },
+  });
+
+  // Content above the list (headers, stories) can change height after load.
+  useLayoutEffect(() => {
+    const measure = () => {
+      const top = (listRef.current?.getBoundingClientRect().top ?? 0) + window.scrollY;
+      setScrollMargin((current) => (current === top ? current : top));
+    };
+    measure();
+    const observer = new ResizeObserver(measure);
+    observer.observe(document.body);
+    return () => observer.disconnect();
+  }, []);
+
+  useLayoutEffect(() => {
+    if (saved) window.scrollTo(0, saved.offset);
+  }, [saved]);
+
+  // Saved during commit, before the next page can clamp the scroll position.
+  useLayoutEffect(
+    () => () => {
+      savedScroll.set(restoreKey, { offset: lastOffset.current, measurements: virtualizer.measurementsCache });
+    },
+    [restoreKey, virtualizer]
+  );
+
+  return (
+    <>
+      <div ref={listRef} className="relative w-full" style={{ height: virtualizer.getTotalSize() }}>
+        {virtualizer.getVirtualItems().map((item) => (
+          <div
+            key={item.key}
+            data-index={item.index}
+            ref={virtualizer.measureElement}
+            className="absolute top-0 left-0 w-full"
+            style={{ transform: `translateY(${item.start - virtualizer.options.scrollMargin}px)` }}
+          >
+            <PostCard post={posts[item.index]} />
+          </div>
+        ))}
+      </div>
+      <LoadMore hasMore={hasMore} isLoading={isLoadingMore} onLoadMore={onLoadMore} />
+    </>
+  );
+};
+
+export default PostFeed;
@@ -0,0 +1,62 @@
+import { useState } from "react";
+import { Bookmark, BookmarkMinus, FolderInput, MoreHorizontal } from "lucide-react";
+import { toast } from "react-toastify";
+import MoveBookmarkDialog from "@/components/bookmarks/MoveBookmarkDialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "@/components/lightswind/dropdown-menu";
+import { OPTIMISTIC_ID_PREFIX, useToggleBookmark } from "@/hooks/use-posts";
+import type { Post } from "@/lib/data";
+
+const itemClassName = "cursor-pointer gap-3 px-3 py-2 text-base hover:bg-neutral-800";
+
+// The "more" menu on a post. The menu is controlled because lightswind items
+// don't close it when they have their own click handler.
+const PostMenu = ({ post }: { post: Post }) => {
+  const bookmark = useToggleBookmark(post);
+  const [open, setOpen] = useState(false);
+  const [moving, setMoving] = useState(false);
+
+  const select = (action: () => void) => () => {
+    setOpen(false);
+    action();
+  };
+
+  return (
+    <>
+      <DropdownMenu open={open} onOpenChange={setOpen}>
+        <DropdownMenuTrigger
+          disabled={post.id.startsWith(OPTIMISTIC_ID_PREFIX)}
+          aria-label="More"
+          className="p-1 rounded-full hover:bg-sky-500/10 hover:text-sky-500 disabled:opacity-50"
+        >
+          <MoreHorizontal size={20} />
+        </DropdownMenuTrigger>
+        <DropdownMenuContent role="menu" align="end" className="w-56 bg-neutral-900 border-neutral-800 text-white">
+          <DropdownMenuItem
+            role="menuitem"
+            onClick={select(() => {
+              bookmark.toggle();
+              toast.success(bookmark.active ? "Removed from bookmarks" : "Added to bookmarks");
+            })}
+            className={itemClassName}
+          >
+            {bookmark.active ? <BookmarkMinus size={18} /> : <Bookmark size={18} />}
+            {bookmark.active ? "Remove bookmark" : "Bookmark"}
+          </DropdownMenuItem>
+          {bookmark.active && (
+            <DropdownMenuItem role="menuitem" onClick={select(() => setMoving(true))} className={itemClassName}>
+              <FolderInput size={18} /> Move to folder
+            </DropdownMenuItem>
+          )}
+        </DropdownMenuContent>
+      </DropdownMenu>
+      {moving && <MoveBookmarkDialog post={post} open onOpenChange={setMoving} />}
+    </>
+  );
+};
+
+export default PostMenu;
@@ -0,0 +1,127 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import {
+  CommandDialog,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut,
+} from "@/components/lightswind/command";
+import { navItems } from "@/components/layout/nav-items";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useListNavigation } from "@/hooks/use-list-navigation";
+import { useSearchSuggestions } from "@/hooks/use-search";
+import { suggestionGroups, suggestionKey, suggestionPath } from "@/lib/search";
+import { cn } from "@/lib/utils";
+import { useUiStore } from "@/store/ui-store";
+import SuggestionContent from "./SuggestionContent";
+
+interface PaletteItem {
+  key: string;
+  href: string;
+  content: React.ReactNode;
+}
+
+interface PaletteGroup {
+  heading: string;
+  items: PaletteItem[];
+}
+
+// ⌘K / Ctrl+K palette: jump to a page with an empty query, or pick a search
+// suggestion once something is typed.
+const CommandPalette = () => {
+  const navigate = useNavigate();
+  const currentUser = useCurrentUser();
+  const open = useUiStore((state) => state.isCommandPaletteOpen);
+  const setOpen = useUiStore((state) => state.setCommandPaletteOpen);
+  const [query, setQuery] = useState("");
+  const { data, isFetching, isSettling, query: settled } = useSearchSuggestions(query);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() === "k" && (e.metaKey || e.ctrlKey)) {
+        e.preventDefault();
+        setOpen(!useUiStore.getState().isCommandPaletteOpen);
+      }
+    };
+    document.addEventListener("keydown", onKeyDown);
+    return () => document.removeEventListener("keydown", onKeyDown);
+  }, [setOpen]);
+
+  const groups: PaletteGroup[] = settled
+    ? suggestionGroups(data, settled).map((group) => ({
+        heading: group.heading,
+        items: group.items.map((suggestion) => ({
+          key: suggestionKey(suggestion),
+          href: suggestionPath(suggestion),
+          content: <SuggestionContent suggestion={suggestion} />,
+        })),
+      }))
+    : [
+        {
+          heading: "Go to",
+          items: navItems(currentUser.handle).map((item) => ({
+            key: item.href,
+            href: item.href,
+            content: (
+              <span className="flex items-center space-x-3">
+                <item.icon className="w-5 h-5" />
+                <span>{item.name}</span>
+              </span>
+            ),
+          })),
+        },
+      ];
+  const items = groups.flatMap((group) => group.items);
+
+  const close = (next: boolean) => {
+    setOpen(next);
+    if (!next) setQuery("");
+  };
+
+  const select = (item: PaletteItem) => {
+    close(false);
+    navigate(item.href);
+  };
+
+  const { active, setActive, onKeyDown } = useListNavigation(items.length, (index) => select(items[index]), 0);
+
+  return (
+    <CommandDialog open={open} onOpenChange={close} className="bg-neutral-950 border-neutral-800 text-white max-w-xl">
+      <CommandInput
+        autoFocus
+        value={query}
+        onValueChange={setQuery}
+        onKeyDown={onKeyDown}
+        isLoading={isFetching || isSettling}
+        placeholder="Search people, posts and hashtags"
+        className="text-base placeholder:text-neutral-500"
+      />
+      <CommandList className="max-h-[60vh] py-2" isLoading={false}>
+        {groups.map((group) => (
+          <CommandGroup key={group.heading} heading={group.heading === "Search" ? undefined : group.heading}>
+            {group.items.map((item) => {
+              const index = items.indexOf(item);
+              return (
+                <CommandItem
+                  key={item.key}
+                  onSelect={() => select(item)}
+                  onMouseMove={() => setActive(index)}
+                  data-selected={index === active ? "true" : undefined}
+                  aria-selected={index === active}
+                  className={cn("cursor-pointer rounded-lg", index === active && "bg-neutral-900")}
+                >
+                  {item.content}
+                  {index === active && <CommandShortcut>↵</CommandShortcut>}
+                </CommandItem>
+              );
+            })}
+          </CommandGroup>
+        ))}
+      </CommandList>
+    </CommandDialog>
+  );
+};
+
+export default CommandPalette;
@@ -0,0 +1,139 @@
+import { useId, useRef, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { Loader2, Search, X } from "lucide-react";
+import { useListNavigation } from "@/hooks/use-list-navigation";
+import { useSearchSuggestions } from "@/hooks/use-search";
+import { searchPath, suggestionGroups, suggestionKey, suggestionPath, type Suggestion } from "@/lib/search";
+import { cn } from "@/lib/utils";
+import SuggestionContent from "./SuggestionContent";
+
+interface SearchBoxProps {
+  /** What the box starts out with, e.g. the query of the current results page. */
+  initialQuery?: string;
+  autoFocus?: boolean;
+  className?: string;
+}
+
+// Search field with grouped typeahead suggestions. Enter without a
+// highlighted suggestion opens the full results page.
+const SearchBox = ({ initialQuery = "", autoFocus, className }: SearchBoxProps) => {
+  const navigate = useNavigate();
+  const listId = useId();
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState(initialQuery);
+  const [open, setOpen] = useState(false);
+  const { data, isFetching, isSettling, query: settled } = useSearchSuggestions(query);
+
+  const groups = settled ? suggestionGroups(data, settled) : [];
+  const items = groups.flatMap((group) => group.items);
+
+  const select = (suggestion: Suggestion) => {
+    setOpen(false);
+    inputRef.current?.blur();
+    navigate(suggestionPath(suggestion));
+  };
+
+  const { active, setActive, onKeyDown } = useListNavigation(items.length, (index) => select(items[index]));
+  const expanded = open && items.length > 0;
+
+  return (
+    <div
+      className={cn("relative", className)}
+      onBlur={(e) => {
+        if (!e.currentTarget.contains(e.relatedTarget)) setOpen(false);
+      }}
+    >
+      <form
+        role="search"
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!query.trim()) return;
+          setOpen(false);
+          inputRef.current?.blur();
+          navigate(searchPath(query));
+        }}
+      >
+        {isFetching || isSettling ? (
+          <Loader2 className="absolute left-4 top-1/2 -translate-y-1/2 text-neutral-500 w-5 h-5 animate-spin" />
+        ) : (
+          <Search className="absolute left-4 top-1/2 -translate-y-1/2 text-neutral-500 w-5 h-5" />
+        )}
+        <input
+          ref={inputRef}
+          type="search"
+          value={query}
+          autoFocus={autoFocus}
+          onChange={(e) => {
+            setQuery(e.target.value);
+            setOpen(true);
+          }}
+          onFocus={() => setOpen(true)}
+          onKeyDown={(e) => {
+            if (e.key === "Escape") {
+              setOpen(false);
+              return;
+            }
+            if (expanded) onKeyDown(e);
+          }}
+          placeholder="Search"
+          role="combobox"
+          aria-label="Search"
+          aria-expanded={expanded}
+          aria-controls={listId}
+          aria-autocomplete="list"
+          aria-activedescendant={expanded && active >= 0 ? `${listId}-${active}` : undefined}
+          className="w-full bg-neutral-900 border border-neutral-800 rounded-full py-3 pl-12 pr-10 text-white placeholder-neutral-500 focus:outline-none focus:ring-2 focus:ring-sky-500 [&::-webkit-search-cancel-button]:hidden"
+        />
+        {query && (
+          <button
+            type="button"
+            onClick={() => {
+              setQuery("");
+              inputRef.current?.focus();
+            }}
+            className="absolute right-3 top-1/2 -translate-y-1/2 p-1 rounded-full bg-sky-500 text-black"
+            aria-label="Clear search"
+          >
+            <X size={12} strokeWidth={3} />
+          </button>
+        )}
+      </form>
+
+      {expanded && (
+        <div
+          id={listId}
+          role="listbox"
+          // Keeps focus in the input so clicking a suggestion doesn't close the list first.
+          onMouseDown={(e) => e.preventDefault()}
+          className="absolute z-20 mt-2 w-full max-h-[70vh] overflow-y-auto bg-neutral-950 border border-neutral-800 rounded-2xl shadow-xl py-2"
+        >
+          {groups.map((group) => (
+            <div key={group.heading} role="group" aria-label={group.heading}>
+              {group.heading !== "Search" && (
+                <p className="px-4 pt-2 pb-1 text-xs font-bold uppercase tracking-wide text-neutral-500">{group.heading}</p>
+              )}
+              {group.items.map((suggestion) => {
+                const index = items.indexOf(suggestion);
+                return (
+                  <div
+                    key={suggestionKey(suggestion)}
+                    id={`${listId}-${index}`}
+                    role="option"
+                    aria-selected={index === active}
+                    onClick={() => select(suggestion)}
+                    onMouseMove={() => setActive(index)}
+                    className={cn("px-4 py-2 cursor-pointer", index === active && "bg-neutral-900")}
+                  >
+                    <SuggestionContent suggestion={suggestion} />
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SearchBox;
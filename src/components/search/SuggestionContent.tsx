@@ -0,0 +1,58 @@
+import { Hash, Search } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import type { Suggestion } from "@/lib/search";
+
+// One typeahead row; the caller supplies the interactive wrapper.
+const SuggestionContent = ({ suggestion }: { suggestion: Suggestion }) => {
+  switch (suggestion.kind) {
+    case "user":
+      return (
+        <div className="flex items-center space-x-3 min-w-0">
+          <Avatar className="w-9 h-9 shrink-0">
+            <AvatarImage src={suggestion.user.avatarUrl} alt={suggestion.user.name} />
+            <AvatarFallback>{suggestion.user.name.charAt(0)}</AvatarFallback>
+          </Avatar>
+          <div className="min-w-0">
+            <p className="font-bold truncate leading-tight">{suggestion.user.name}</p>
+            <p className="text-sm text-neutral-500 truncate leading-tight">@{suggestion.user.handle}</p>
+          </div>
+        </div>
+      );
+    case "hashtag":
+      return (
+        <div className="flex items-center space-x-3 min-w-0">
+          <span className="w-9 h-9 shrink-0 rounded-full bg-neutral-800 flex items-center justify-center">
+            <Hash size={18} />
+          </span>
+          <div className="min-w-0">
+            <p className="font-bold truncate leading-tight">#{suggestion.hashtag.tag}</p>
+            <p className="text-sm text-neutral-500 leading-tight">
+              {suggestion.hashtag.posts} {suggestion.hashtag.posts === 1 ? "post" : "posts"}
+            </p>
+          </div>
+        </div>
+      );
+    case "post":
+      return (
+        <div className="min-w-0">
+          <p className="text-sm text-neutral-500 truncate">
+            {suggestion.post.author.name} · @{suggestion.post.author.handle}
+          </p>
+          <p className="truncate">{suggestion.post.content}</p>
+        </div>
+      );
+    case "query":
+      return (
+        <div className="flex items-center space-x-3 min-w-0">
+          <span className="w-9 h-9 shrink-0 rounded-full bg-neutral-800 flex items-center justify-center">
+            <Search size={18} />
+          </span>
+          <p className="truncate">
+            Search for “<span className="font-bold">{suggestion.query}</span>”
+          </p>
+        </div>
+      );
+  }
+};
+
+export default SuggestionContent;
@@ -0,0 +1,38 @@
+import { Link } from "react-router-dom";
+import { useTrends } from "@/hooks/use-search";
+import type { Trend } from "@/lib/data";
+import { trendPath } from "@/lib/search";
+import { cn } from "@/lib/utils";
+
+const windowLabel = (hours: number) =>
+  hours === 1 ? "in the last hour" : hours >= 24 ? "today" : `in the last ${hours} hours`;
+
+const trendLabel = (trend: Trend) => (trend.kind === "hashtag" ? `#${trend.term}` : trend.term);
+
+// Terms spiking right now, each linking to its search results. Hidden until
+// there is something to show.
+const TrendingCard = ({ className }: { className?: string }) => {
+  const { data: trends = [] } = useTrends();
+  if (trends.length === 0) return null;
+
+  return (
+    <div className={cn("bg-neutral-900 rounded-2xl py-4", className)}>
+      <h3 className="text-xl font-bold mb-2 px-4">Trending</h3>
+      {trends.map((trend) => (
+        <Link
+          key={`${trend.kind}:${trend.term}`}
+          to={trendPath(trend)}
+          className="block px-4 py-2 hover:bg-neutral-800/50 transition-colors"
+        >
+          <p className="text-xs text-neutral-500">Trending {windowLabel(trend.windowHours)}</p>
+          <p className="font-bold truncate">{trendLabel(trend)}</p>
+          <p className="text-xs text-neutral-500">
+            {trend.posts} {trend.posts === 1 ? "post" : "posts"}
+          </p>
+        </Link>
+      ))}
+    </div>
+  );
+};
+
+export default TrendingCard;
@@ -0,0 +1,52 @@
+import { useState } from "react";
+import StoryAvatar from "@/components/stories/StoryAvatar";
+import StoryComposer from "@/components/stories/StoryComposer";
+import StoryViewer from "@/components/stories/StoryViewer";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useStoryReels } from "@/hooks/use-stories";
+import type { StoryReel } from "@/lib/data";
+
+// The row of story rings on Home: the viewer's own first, then everyone they
+// follow with something posted in the last day, unseen before seen.
+const StoriesBar = () => {
+  const viewer = useCurrentUser();
+  const { data: reels = [] } = useStoryReels();
+  const [playing, setPlaying] = useState<{ reels: StoryReel[]; startReel: number } | null>(null);
+  const [composing, setComposing] = useState(false);
+
+  const ownIndex = reels.findIndex((reel) => reel.author.handle === viewer.handle);
+  const play = (index: number) => setPlaying({ reels, startReel: index });
+
+  return (
+    <div className="p-4 border-b border-neutral-800">
+      <div className="flex space-x-4 overflow-x-auto scrollbar-hidden pb-2">
+        <StoryAvatar
+          user={viewer}
+          label="Your story"
+          ring={ownIndex === -1 ? "none" : "seen"}
+          onClick={() => (ownIndex === -1 ? setComposing(true) : play(ownIndex))}
+          onAdd={() => setComposing(true)}
+        />
+        {reels.map(
+          (reel, index) =>
+            index !== ownIndex && (
+              <StoryAvatar
+                key={reel.author.handle}
+                user={reel.author}
+                label={reel.author.name.split(" ")[0]}
+                ring={reel.seen ? "seen" : "unseen"}
+                onClick={() => play(index)}
+              />
+            )
+        )}
+      </div>
+
+      {playing && (
+        <StoryViewer reels={playing.reels} startReel={playing.startReel} onClose={() => setPlaying(null)} />
+      )}
+      <StoryComposer open={composing} onOpenChange={setComposing} />
+    </div>
+  );
+};
+
+export default StoriesBar;
@@ -0,0 +1,49 @@
+import { Plus } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import type { UserProfile } from "@/lib/data";
+import { cn } from "@/lib/utils";
+
+interface StoryAvatarProps {
+  user: UserProfile;
+  label: string;
+  /** Draws the colored ring; seen reels get a plain one and empty ones none. */
+  ring: "unseen" | "seen" | "none";
+  onClick: () => void;
+  /** Adds the "+" badge that starts a new story. */
+  onAdd?: () => void;
+}
+
+const StoryAvatar = ({ user, label, ring, onClick, onAdd }: StoryAvatarProps) => (
+  <div className="flex flex-col items-center space-y-2 shrink-0">
+    <div className="relative">
+      <button
+        onClick={onClick}
+        className={cn(
+          "block p-0.5 rounded-full",
+          ring === "unseen" && "bg-gradient-to-br from-yellow-400 via-red-500 to-purple-600",
+          ring === "seen" && "bg-neutral-700"
+        )}
+        aria-label={ring === "none" ? label : `View ${label}'s story`}
+      >
+        <div className="p-0.5 bg-neutral-950 rounded-full">
+          <Avatar className="w-16 h-16">
+            <AvatarImage src={user.avatarUrl} />
+            <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
+          </Avatar>
+        </div>
+      </button>
+      {onAdd && (
+        <button
+          onClick={onAdd}
+          className="absolute bottom-0 right-0 p-0.5 rounded-full bg-sky-500 hover:bg-sky-600 border-2 border-neutral-950"
+          aria-label="Add to your story"
+        >
+          <Plus size={14} />
+        </button>
+      )}
+    </div>
+    <p className="text-xs text-neutral-400 max-w-16 truncate">{label}</p>
+  </div>
+);
+
+export default StoryAvatar;
@@ -0,0 +1,159 @@
+import { useRef, useState } from "react";
+import { ImagePlus, Type, X } from "lucide-react";
+import { toast } from "react-toastify";
+import { Dialog, DialogContent, DialogTitle } from "@/components/lightswind/dialog";
+import { Textarea } from "@/components/lightswind/textarea";
+import { useCreateStory } from "@/hooks/use-stories";
+import { MAX_STORY_TEXT_LENGTH, UPLOAD_IMAGE_TYPES } from "@/lib/api";
+import { STORY_BACKGROUNDS, type StoryBackground } from "@/lib/data";
+import { MAX_IMAGE_BYTES, readAsDataUrl } from "@/lib/images";
+import { STORY_BACKGROUND_CLASSES } from "@/lib/stories";
+import { cn } from "@/lib/utils";
+
+interface StoryComposerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+// A photo with an optional caption, or a few words on a colored backdrop.
+const StoryComposer = ({ open, onOpenChange }: StoryComposerProps) => {
+  const createStory = useCreateStory();
+  const [imageUrl, setImageUrl] = useState<string>();
+  const [text, setText] = useState("");
+  const [background, setBackground] = useState<StoryBackground>(STORY_BACKGROUNDS[0]);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const length = text.trim().length;
+  const canShare = (!!imageUrl || length > 0) && length <= MAX_STORY_TEXT_LENGTH && !createStory.isPending;
+
+  const close = (next: boolean) => {
+    onOpenChange(next);
+    if (!next) {
+      setImageUrl(undefined);
+      setText("");
+      setBackground(STORY_BACKGROUNDS[0]);
+    }
+  };
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!UPLOAD_IMAGE_TYPES.includes(file.type)) {
+      toast.error("Choose a PNG, JPEG or WebP image.");
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      toast.error("Images must be 5 MB or smaller.");
+      return;
+    }
+    try {
+      setImageUrl(await readAsDataUrl(file));
+    } catch {
+      toast.error("That image couldn't be read. Try another one.");
+    }
+  };
+
+  const share = () =>
+    createStory.mutate(
+      { imageUrl, text, background: imageUrl ? undefined : background },
+      {
+        onSuccess: () => close(false),
+        onError: (error) => toast.error(error.message || "Your story couldn't be shared."),
+      }
+    );
+
+  return (
+    <Dialog open={open} onOpenChange={close}>
+      <DialogContent className="bg-neutral-950 border-neutral-800 text-white max-w-sm">
+        <DialogTitle className="text-xl font-bold">New story</DialogTitle>
+
+        <div
+          className={cn(
+            "relative aspect-[9/16] rounded-lg overflow-hidden flex items-center justify-center",
+            !imageUrl && STORY_BACKGROUND_CLASSES[background]
+          )}
+        >
+          {imageUrl ? (
+            <>
+              <img src={imageUrl} alt="" className="w-full h-full object-contain bg-black" />
+              <button
+                onClick={() => setImageUrl(undefined)}
+                className="absolute top-2 right-2 p-1.5 rounded-full bg-black/60 hover:bg-black/80"
+                aria-label="Remove photo"
+              >
+                <X size={18} />
+              </button>
+            </>
+          ) : (
+            <p className="p-6 text-2xl font-bold text-center break-words">
+              {text.trim() || <span className="text-white/60">Start typing</span>}
+            </p>
+          )}
+        </div>
+
+        <Textarea
+          value={text}
+          onChange={(e) => setText(e.target.value)}
+          placeholder={imageUrl ? "Add a caption" : "What's on your mind?"}
+          aria-label={imageUrl ? "Caption" : "Story text"}
+          rows={2}
+          className="resize-none bg-transparent border-neutral-700 text-white focus:border-sky-500"
+        />
+
+        <div className="flex items-center justify-between gap-3">
+          <div className="flex items-center gap-2">
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="p-2 rounded-full text-sky-500 hover:bg-sky-500/10"
+              aria-label={imageUrl ? "Replace photo" : "Add photo"}
+            >
+              <ImagePlus size={20} />
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept={UPLOAD_IMAGE_TYPES.join(",")}
+              hidden
+              onChange={handleFile}
+            />
+            {!imageUrl && (
+              <div className="flex items-center gap-1.5" role="radiogroup" aria-label="Background">
+                <Type size={16} className="text-neutral-500 mr-1" />
+                {STORY_BACKGROUNDS.map((value) => (
+                  <button
+                    key={value}
+                    role="radio"
+                    aria-checked={background === value}
+                    aria-label={value}
+                    onClick={() => setBackground(value)}
+                    className={cn(
+                      "w-6 h-6 rounded-full",
+                      STORY_BACKGROUND_CLASSES[value],
+                      background === value && "ring-2 ring-white ring-offset-2 ring-offset-neutral-950"
+                    )}
+                  />
+                ))}
+              </div>
+            )}
+          </div>
+          <span
+            className={cn("text-sm tabular-nums", length > MAX_STORY_TEXT_LENGTH ? "text-red-500" : "text-neutral-500")}
+          >
+            {length}/{MAX_STORY_TEXT_LENGTH}
+          </span>
+        </div>
+
+        <button
+          onClick={share}
+          disabled={!canShare}
+          className="w-full bg-sky-500 hover:bg-sky-600 text-white font-bold py-2 rounded-full disabled:opacity-50"
+        >
+          {createStory.isPending ? "Sharing…" : "Share to story"}
+        </button>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default StoryComposer;
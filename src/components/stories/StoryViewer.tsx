@@ -0,0 +1,226 @@
+import { useEffect, useRef, useState } from "react";
+import { createPortal } from "react-dom";
+import { Link } from "react-router-dom";
+import { ImageOff, Pause, Play, X } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import RelativeTime from "@/components/common/RelativeTime";
+import { useMarkStorySeen } from "@/hooks/use-stories";
+import type { StoryReel } from "@/lib/data";
+import {
+  firstUnseenStory,
+  nextStory,
+  previousStory,
+  STORY_BACKGROUND_CLASSES,
+  STORY_DURATION_MS,
+  type StoryPosition,
+} from "@/lib/stories";
+import { cn } from "@/lib/utils";
+
+// A press shorter than this is a tap that changes story; anything longer
+// was holding the story paused.
+const TAP_MS = 200;
+
+interface StoryViewerProps {
+  /** The reels as they were when the viewer opened; the queue doesn't shift underneath it. */
+  reels: StoryReel[];
+  /** Index of the reel to start with. */
+  startReel: number;
+  onClose: () => void;
+}
+
+// Full-screen playback. Each story runs for STORY_DURATION_MS and then moves
+// on, reel after reel, closing after the last. Tapping the left third goes
+// back and the rest goes forward; holding pauses. Arrow keys step, space
+// pauses and Escape closes.
+const StoryViewer = ({ reels, startReel, onClose }: StoryViewerProps) => {
+  const [position, setPosition] = useState<StoryPosition>(() => ({
+    reel: startReel,
+    story: firstUnseenStory(reels[startReel]),
+  }));
+  const [progress, setProgress] = useState(0);
+  const [paused, setPaused] = useState(false);
+  const [held, setHeld] = useState(false);
+  const [loadedImage, setLoadedImage] = useState<string>();
+  const [failedImage, setFailedImage] = useState<string>();
+  const elapsed = useRef(0);
+  const press = useRef<{ pointerId: number; at: number } | null>(null);
+  const { mutate: markSeen } = useMarkStorySeen();
+
+  const reel = reels[position.reel];
+  const story = reel.stories[position.story];
+  const failed = !!story.imageUrl && failedImage === story.imageUrl;
+  // A broken image still gets its turn, showing a placeholder, so playback moves on.
+  const ready = !story.imageUrl || loadedImage === story.imageUrl || failed;
+  const running = ready && !paused && !held;
+
+  const go = (next: StoryPosition | null) => {
+    if (!next) {
+      onClose();
+      return;
+    }
+    elapsed.current = 0;
+    setProgress(0);
+    setPosition(next);
+  };
+
+  useEffect(() => {
+    if (!story.seen) markSeen(story.id);
+  }, [story.id, story.seen, markSeen]);
+
+  useEffect(() => {
+    if (!running) return;
+    let frame: number;
+    let last = performance.now();
+    const tick = (now: number) => {
+      elapsed.current += now - last;
+      last = now;
+      if (elapsed.current >= STORY_DURATION_MS) {
+        const next = nextStory(reels, position);
+        if (!next) {
+          onClose();
+          return;
+        }
+        elapsed.current = 0;
+        setProgress(0);
+        setPosition(next);
+        return;
+      }
+      setProgress(elapsed.current / STORY_DURATION_MS);
+      frame = requestAnimationFrame(tick);
+    };
+    frame = requestAnimationFrame(tick);
+    return () => cancelAnimationFrame(frame);
+  }, [running, reels, position, onClose]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key === "Escape") {
+        onClose();
+      } else if (e.key === "ArrowRight") {
+        go(nextStory(reels, position));
+      } else if (e.key === "ArrowLeft") {
+        go(previousStory(reels, position));
+      } else if (e.key === " ") {
+        e.preventDefault();
+        setPaused((p) => !p);
+      }
+    };
+    window.addEventListener("keydown", onKeyDown);
+    return () => window.removeEventListener("keydown", onKeyDown);
+  });
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    press.current = { pointerId: e.pointerId, at: performance.now() };
+    setHeld(true);
+  };
+
+  const onPointerUp = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (press.current?.pointerId !== e.pointerId) return;
+    const tapped = performance.now() - press.current.at < TAP_MS;
+    press.current = null;
+    setHeld(false);
+    if (!tapped) return;
+    const frame = e.currentTarget.getBoundingClientRect();
+    go(e.clientX - frame.left < frame.width / 3 ? previousStory(reels, position) : nextStory(reels, position));
+  };
+
+  const cancelPress = () => {
+    press.current = null;
+    setHeld(false);
+  };
+
+  return createPortal(
+    <div
+      role="dialog"
+      aria-modal="true"
+      aria-label={`Stories by ${reel.author.name}`}
+      className="fixed inset-0 z-50 bg-black flex items-center justify-center"
+    >
+      <div className="relative w-full h-full max-w-md sm:h-[90vh] sm:rounded-xl overflow-hidden bg-neutral-900">
+        <div
+          className="absolute inset-0 touch-none select-none"
+          onPointerDown={onPointerDown}
+          onPointerUp={onPointerUp}
+          onPointerCancel={cancelPress}
+          onContextMenu={(e) => e.preventDefault()}
+        >
+          {failed ? (
+            <div className="w-full h-full flex flex-col items-center justify-center gap-3 p-8 text-neutral-400">
+              <ImageOff size={32} />
+              <p className="text-center">This story couldn't be loaded.</p>
+            </div>
+          ) : story.imageUrl ? (
+            <>
+              <img
+                key={story.id}
+                src={story.imageUrl}
+                alt={story.text || `Story by @${reel.author.handle}`}
+                draggable={false}
+                onLoad={() => setLoadedImage(story.imageUrl)}
+                onError={() => setFailedImage(story.imageUrl)}
+                className="w-full h-full object-contain pointer-events-none"
+              />
+              {story.text && (
+                <p className="absolute bottom-0 inset-x-0 p-6 pt-12 text-center text-lg bg-gradient-to-t from-black/80 to-transparent">
+                  {story.text}
+                </p>
+              )}
+            </>
+          ) : (
+            <div
+              className={cn(
+                "w-full h-full flex items-center justify-center p-8",
+                STORY_BACKGROUND_CLASSES[story.background ?? "sky"]
+              )}
+            >
+              <p className="text-2xl font-bold text-center break-words">{story.text}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="absolute top-0 inset-x-0 p-3 space-y-3 bg-gradient-to-b from-black/60 to-transparent">
+          <div className="flex gap-1">
+            {reel.stories.map((s, i) => (
+              <div key={s.id} className="h-0.5 flex-1 rounded-full bg-white/30 overflow-hidden">
+                <div
+                  className="h-full bg-white"
+                  style={{ width: `${(i < position.story ? 1 : i === position.story ? progress : 0) * 100}%` }}
+                />
+              </div>
+            ))}
+          </div>
+          <div className="flex items-center gap-3">
+            <Link
+              to={`/profile/${reel.author.handle}`}
+              onClick={onClose}
+              className="flex items-center gap-2 min-w-0 hover:underline"
+            >
+              <Avatar className="w-8 h-8">
+                <AvatarImage src={reel.author.avatarUrl} />
+                <AvatarFallback>{reel.author.name.charAt(0)}</AvatarFallback>
+              </Avatar>
+              <span className="font-bold truncate">{reel.author.name}</span>
+            </Link>
+            <RelativeTime date={story.timestamp} className="text-sm text-neutral-300" />
+            <div className="ml-auto flex items-center gap-1">
+              <button
+                onClick={() => setPaused((p) => !p)}
+                className="p-2 rounded-full hover:bg-white/10"
+                aria-label={paused ? "Play" : "Pause"}
+              >
+                {paused ? <Play size={18} /> : <Pause size={18} />}
+              </button>
+              <button onClick={onClose} className="p-2 rounded-full hover:bg-white/10" aria-label="Close">
+                <X size={20} />
+              </button>
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default StoryViewer;
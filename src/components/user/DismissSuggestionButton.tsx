@@ -0,0 +1,20 @@
+import { X } from "lucide-react";
+import { useDismissSuggestion } from "@/hooks/use-users";
+import type { User } from "@/lib/data";
+
+const DismissSuggestionButton = ({ user }: { user: User }) => {
+  const dismiss = useDismissSuggestion();
+
+  return (
+    <button
+      onClick={() => dismiss.mutate(user.handle)}
+      className="p-1.5 rounded-full text-neutral-500 hover:text-white hover:bg-neutral-800 transition-colors"
+      aria-label={`Don't suggest @${user.handle}`}
+      title="Not interested"
+    >
+      <X size={16} />
+    </button>
+  );
+};
+
+export default DismissSuggestionButton;
@@ -0,0 +1,309 @@
+import { useCallback, useRef, useState } from "react";
+import { useForm } from "react-hook-form";
+import { Camera, X } from "lucide-react";
+import { toast } from "react-toastify";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import { Dialog, DialogContent, DialogTitle } from "@/components/lightswind/dialog";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/lightswind/form";
+import { Input } from "@/components/lightswind/input";
+import { Textarea } from "@/components/lightswind/textarea";
+import ImageCropper from "@/components/user/ImageCropper";
+import { useUpdateProfile } from "@/hooks/use-users";
+import {
+  MAX_BIO_LENGTH,
+  MAX_LOCATION_LENGTH,
+  MAX_NAME_LENGTH,
+  UPLOAD_IMAGE_TYPES,
+  type UpdateProfileInput,
+} from "@/lib/api";
+import type { User } from "@/lib/data";
+import { MAX_IMAGE_BYTES, readAsDataUrl } from "@/lib/images";
+import { normalizeWebsite } from "@/lib/profile";
+
+type ImageField = "avatarUrl" | "coverUrl";
+
+// Avatars are cropped square and shown round; covers match the profile banner.
+const imageCrops: Record<ImageField, { title: string; aspect: number; outputWidth: number; round: boolean }> = {
+  avatarUrl: { title: "Edit photo", aspect: 1, outputWidth: 400, round: true },
+  coverUrl: { title: "Edit header", aspect: 3, outputWidth: 1500, round: false },
+};
+
+const inputClassName = "bg-transparent border-neutral-700 text-white focus:border-sky-500";
+
+const editableFields = ({ name, bio, location, website, avatarUrl, coverUrl }: User): UpdateProfileInput => ({
+  name,
+  bio,
+  location,
+  website,
+  avatarUrl,
+  coverUrl,
+});
+
+interface EditProfileDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  user: User;
+}
+
+// The viewer's own profile form. Picked images go through the cropper before
+// they replace the current ones; nothing is saved until "Save".
+const EditProfileDialog = ({ open, onOpenChange, user }: EditProfileDialogProps) => {
+  const updateProfile = useUpdateProfile();
+  const form = useForm<UpdateProfileInput>({ defaultValues: editableFields(user) });
+  const [cropping, setCropping] = useState<{ field: ImageField; src: string } | null>(null);
+  const avatarInputRef = useRef<HTMLInputElement>(null);
+  const coverInputRef = useRef<HTMLInputElement>(null);
+
+  const avatarUrl = form.watch("avatarUrl");
+  const coverUrl = form.watch("coverUrl");
+  const bioLength = form.watch("bio").length;
+
+  const close = (next: boolean, saved: User = user) => {
+    onOpenChange(next);
+    if (!next) {
+      form.reset(editableFields(saved));
+      setCropping(null);
+    }
+  };
+
+  const pickImage = (field: ImageField) => async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+    if (!UPLOAD_IMAGE_TYPES.includes(file.type)) {
+      toast.error("Choose a PNG, JPEG or WebP image.");
+      return;
+    }
+    if (file.size > MAX_IMAGE_BYTES) {
+      toast.error("Images must be 5 MB or smaller.");
+      return;
+    }
+    try {
+      setCropping({ field, src: await readAsDataUrl(file) });
+    } catch {
+      toast.error("That image couldn't be read. Try another one.");
+    }
+  };
+
+  // Back to the form, where the camera buttons pick a different file.
+  const onCropError = useCallback(() => {
+    toast.error("That image couldn't be opened. Try another one.");
+    setCropping(null);
+  }, []);
+
+  const onSubmit = form.handleSubmit((values) =>
+    updateProfile.mutate(
+      { ...values, website: normalizeWebsite(values.website) ?? values.website },
+      {
+        onSuccess: (saved) => close(false, saved),
+        onError: (error) => form.setError("root", { message: error.message }),
+      }
+    )
+  );
+
+  const crop = cropping && imageCrops[cropping.field];
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => close(next)}>
+      <DialogContent className="bg-neutral-950 border-neutral-800 text-white max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogTitle className="text-xl font-bold">{crop ? crop.title : "Edit profile"}</DialogTitle>
+
+        {cropping && crop && (
+          <ImageCropper
+            src={cropping.src}
+            aspect={crop.aspect}
+            outputWidth={crop.outputWidth}
+            round={crop.round}
+            onCancel={() => setCropping(null)}
+            onApply={(dataUrl) => {
+              form.setValue(cropping.field, dataUrl, { shouldDirty: true });
+              setCropping(null);
+            }}
+            onError={onCropError}
+          />
+        )}
+
+        {/* Kept mounted while cropping so nothing typed is lost. */}
+        <Form {...form}>
+          <form onSubmit={onSubmit} noValidate className={cropping ? "hidden" : "space-y-5"}>
+            <div className="relative mb-14">
+              <div className="relative h-32 rounded-md bg-neutral-800 overflow-hidden">
+                {coverUrl && <img src={coverUrl} alt="Header" className="w-full h-full object-cover" />}
+                <div className="absolute inset-0 flex items-center justify-center gap-3 bg-black/30">
+                  <button
+                    type="button"
+                    onClick={() => coverInputRef.current?.click()}
+                    className="p-2 rounded-full bg-black/60 hover:bg-black/80"
+                    aria-label="Change header photo"
+                  >
+                    <Camera size={20} />
+                  </button>
+                  {coverUrl && (
+                    <button
+                      type="button"
+                      onClick={() => form.setValue("coverUrl", "", { shouldDirty: true })}
+                      className="p-2 rounded-full bg-black/60 hover:bg-black/80"
+                      aria-label="Remove header photo"
+                    >
+                      <X size={20} />
+                    </button>
+                  )}
+                </div>
+              </div>
+              <div className="absolute -bottom-12 left-4 p-1 bg-neutral-950 rounded-full">
+                <div className="relative">
+                  <Avatar className="w-24 h-24">
+                    <AvatarImage src={avatarUrl} />
+                    <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
+                  </Avatar>
+                  <button
+                    type="button"
+                    onClick={() => avatarInputRef.current?.click()}
+                    className="absolute inset-0 flex items-center justify-center rounded-full bg-black/30 hover:bg-black/50"
+                    aria-label="Change profile photo"
+                  >
+                    <Camera size={20} />
+                  </button>
+                </div>
+              </div>
+              <input
+                ref={coverInputRef}
+                type="file"
+                accept={UPLOAD_IMAGE_TYPES.join(",")}
+                hidden
+                onChange={pickImage("coverUrl")}
+              />
+              <input
+                ref={avatarInputRef}
+                type="file"
+                accept={UPLOAD_IMAGE_TYPES.join(",")}
+                hidden
+                onChange={pickImage("avatarUrl")}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="name"
+              rules={{
+                validate: (value) => !!value.trim() || "Enter your name",
+                maxLength: { value: MAX_NAME_LENGTH, message: `At most ${MAX_NAME_LENGTH} characters` },
+              }}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Name</FormLabel>
+                  <FormControl>
+                    <Input
+                      ref={field.ref}
+                      name={field.name}
+                      value={field.value}
+                      onChange={field.onChange}
+                      autoComplete="name"
+                      className={inputClassName}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="bio"
+              rules={{ maxLength: { value: MAX_BIO_LENGTH, message: `At most ${MAX_BIO_LENGTH} characters` } }}
+              render={({ field }) => (
+                <FormItem>
+                  <div className="flex justify-between">
+                    <FormLabel>Bio</FormLabel>
+                    <span
+                      className={`text-sm tabular-nums ${bioLength > MAX_BIO_LENGTH ? "text-red-500" : "text-neutral-500"}`}
+                    >
+                      {bioLength}/{MAX_BIO_LENGTH}
+                    </span>
+                  </div>
+                  <FormControl>
+                    <Textarea
+                      ref={field.ref}
+                      name={field.name}
+                      value={field.value}
+                      onChange={field.onChange}
+                      rows={3}
+                      className={`resize-none ${inputClassName}`}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="location"
+              rules={{
+                maxLength: { value: MAX_LOCATION_LENGTH, message: `At most ${MAX_LOCATION_LENGTH} characters` },
+              }}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Location</FormLabel>
+                  <FormControl>
+                    <Input
+                      ref={field.ref}
+                      name={field.name}
+                      value={field.value}
+                      onChange={field.onChange}
+                      className={inputClassName}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+            <FormField
+              control={form.control}
+              name="website"
+              rules={{ validate: (value) => normalizeWebsite(value) !== null || "Enter a valid website address" }}
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Website</FormLabel>
+                  <FormControl>
+                    <Input
+                      ref={field.ref}
+                      name={field.name}
+                      value={field.value}
+                      onChange={field.onChange}
+                      // Shows the address the way it will be saved.
+                      onBlur={() => {
+                        const normalized = normalizeWebsite(field.value);
+                        if (normalized !== null) field.onChange(normalized);
+                        field.onBlur();
+                      }}
+                      inputMode="url"
+                      autoComplete="url"
+                      placeholder="example.com"
+                      className={inputClassName}
+                    />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            {form.formState.errors.root && (
+              <p role="alert" className="text-sm font-medium text-red-500">
+                {form.formState.errors.root.message}
+              </p>
+            )}
+
+            <button
+              type="submit"
+              disabled={!form.formState.isDirty || updateProfile.isPending}
+              className="w-full bg-white text-black font-bold py-2 rounded-full hover:bg-neutral-200 disabled:opacity-50"
+            >
+              {updateProfile.isPending ? "Saving…" : "Save"}
+            </button>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditProfileDialog;
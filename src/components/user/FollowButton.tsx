@@ -0,0 +1,81 @@
+import { useState } from "react";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/lightswind/alert-dialog";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useToggleFollow } from "@/hooks/use-users";
+import type { User } from "@/lib/data";
+import { cn } from "@/lib/utils";
+
+interface FollowButtonProps {
+  user: User;
+  className?: string;
+}
+
+// Follow toggle. Unfollowing asks for confirmation first; nothing renders
+// for the viewer's own account.
+const FollowButton = ({ user, className }: FollowButtonProps) => {
+  const currentUser = useCurrentUser();
+  const toggleFollow = useToggleFollow(user);
+  const [confirming, setConfirming] = useState(false);
+
+  if (currentUser.handle === user.handle) return null;
+
+  const following = !!user.followedByMe;
+
+  return (
+    <>
+      <button
+        onClick={() => (following ? setConfirming(true) : toggleFollow.mutate(true))}
+        disabled={toggleFollow.isPending}
+        className={cn(
+          "group font-semibold px-4 py-1.5 rounded-full text-sm transition-colors disabled:opacity-70",
+          following
+            ? "border border-neutral-700 text-white hover:border-red-500/50 hover:bg-red-500/10 hover:text-red-500"
+            : "bg-white text-black hover:bg-neutral-200",
+          className
+        )}
+      >
+        {following ? (
+          <>
+            <span className="group-hover:hidden">Following</span>
+            <span className="hidden group-hover:inline">Unfollow</span>
+          </>
+        ) : (
+          "Follow"
+        )}
+      </button>
+
+      <AlertDialog open={confirming} onOpenChange={setConfirming}>
+        <AlertDialogContent className="bg-neutral-950 border-neutral-800 text-white max-w-xs rounded-2xl">
+          <AlertDialogHeader>
+            <AlertDialogTitle>Unfollow @{user.handle}?</AlertDialogTitle>
+            <AlertDialogDescription className="text-neutral-500">
+              Their posts will no longer show up in your Following timeline. You can still view their profile.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter className="sm:flex-col sm:space-x-0 gap-2">
+            <AlertDialogAction
+              onClick={() => toggleFollow.mutate(false)}
+              className="rounded-full bg-white text-black font-bold hover:bg-neutral-200"
+            >
+              Unfollow
+            </AlertDialogAction>
+            <AlertDialogCancel className="rounded-full border-neutral-700 bg-transparent text-white hover:bg-neutral-900">
+              Cancel
+            </AlertDialogCancel>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </>
+  );
+};
+
+export default FollowButton;
@@ -0,0 +1,7 @@
+const FollowsYouBadge = () => (
+  <span className="text-xs font-medium text-neutral-400 bg-neutral-800 rounded px-1.5 py-0.5">
+    Follows you
+  </span>
+);
+
+export default FollowsYouBadge;
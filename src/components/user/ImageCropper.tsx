@@ -0,0 +1,162 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import { ZoomIn, ZoomOut } from "lucide-react";
+import { Slider } from "@/components/lightswind/slider";
+import {
+  clampCrop,
+  coveredSize,
+  cropRegion,
+  INITIAL_CROP,
+  MAX_CROP_ZOOM,
+  MIN_CROP_ZOOM,
+  type Crop,
+} from "@/lib/images";
+import { cn } from "@/lib/utils";
+
+interface ImageCropperProps {
+  src: string;
+  /** Width over height of the result. */
+  aspect: number;
+  /** Width of the result in pixels. */
+  outputWidth: number;
+  /** Shows a circular guide, for avatars. */
+  round?: boolean;
+  onCancel: () => void;
+  onApply: (dataUrl: string) => void;
+  /** Called when `src` can't be decoded as an image. */
+  onError: () => void;
+}
+
+interface Drag {
+  pointerId: number;
+  startX: number;
+  startY: number;
+  crop: Crop;
+}
+
+// Drag to position and slide to zoom; applying renders the framed part of
+// the image to a JPEG data URL at `outputWidth`.
+const ImageCropper = ({ src, aspect, outputWidth, round, onCancel, onApply, onError }: ImageCropperProps) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [crop, setCrop] = useState(INITIAL_CROP);
+  const drag = useRef<Drag | null>(null);
+
+  useEffect(() => {
+    const img = new Image();
+    img.onload = () => {
+      setImage(img);
+      setCrop(INITIAL_CROP);
+    };
+    img.onerror = () => onError();
+    img.src = src;
+    return () => {
+      img.onload = null;
+      img.onerror = null;
+    };
+  }, [src, onError]);
+
+  const imageAspect = image ? image.naturalWidth / image.naturalHeight : aspect;
+  const update = (next: Crop) => setCrop(clampCrop(next, imageAspect, aspect));
+  const size = coveredSize(imageAspect, aspect, crop.zoom);
+  const zoomValue = useMemo(() => [crop.zoom], [crop.zoom]);
+
+  const onPointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    e.currentTarget.setPointerCapture(e.pointerId);
+    drag.current = { pointerId: e.pointerId, startX: e.clientX, startY: e.clientY, crop };
+  };
+
+  const onPointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (drag.current?.pointerId !== e.pointerId) return;
+    const frame = e.currentTarget.getBoundingClientRect();
+    const { startX, startY, crop: start } = drag.current;
+    update({
+      ...start,
+      x: start.x + (e.clientX - startX) / frame.width,
+      y: start.y + (e.clientY - startY) / frame.height,
+    });
+  };
+
+  const endDrag = () => {
+    drag.current = null;
+  };
+
+  const apply = () => {
+    if (!image) return;
+    const canvas = document.createElement("canvas");
+    canvas.width = outputWidth;
+    canvas.height = Math.round(outputWidth / aspect);
+    const region = cropRegion(crop, { width: image.naturalWidth, height: image.naturalHeight }, aspect);
+    canvas
+      .getContext("2d")
+      ?.drawImage(image, region.x, region.y, region.width, region.height, 0, 0, canvas.width, canvas.height);
+    onApply(canvas.toDataURL("image/jpeg", 0.9));
+  };
+
+  return (
+    <div className="space-y-4">
+      <div
+        className="relative w-full overflow-hidden rounded-md bg-neutral-900 touch-none select-none cursor-move"
+        style={{ aspectRatio: aspect }}
+        onPointerDown={onPointerDown}
+        onPointerMove={onPointerMove}
+        onPointerUp={endDrag}
+        onPointerCancel={endDrag}
+      >
+        {image && (
+          <img
+            src={src}
+            alt=""
+            draggable={false}
+            className="absolute max-w-none pointer-events-none"
+            style={{
+              width: `${size.width * 100}%`,
+              height: `${size.height * 100}%`,
+              left: `${(0.5 + crop.x - size.width / 2) * 100}%`,
+              top: `${(0.5 + crop.y - size.height / 2) * 100}%`,
+            }}
+          />
+        )}
+        <div
+          className={cn(
+            "absolute inset-0 pointer-events-none border-2 border-sky-500",
+            round && "rounded-full shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+          )}
+        />
+      </div>
+
+      <div className="flex items-center gap-3 text-neutral-500">
+        <ZoomOut size={18} />
+        <Slider
+          value={zoomValue}
+          min={MIN_CROP_ZOOM}
+          max={MAX_CROP_ZOOM}
+          step={0.01}
+          onValueChange={([zoom]) => update({ ...crop, zoom })}
+          disabled={!image}
+          className="flex-1"
+          aria-label="Zoom"
+        />
+        <ZoomIn size={18} />
+      </div>
+
+      <div className="flex justify-end gap-2">
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-1.5 rounded-full border border-neutral-700 font-bold hover:bg-neutral-900"
+        >
+          Cancel
+        </button>
+        <button
+          type="button"
+          onClick={apply}
+          disabled={!image}
+          className="px-4 py-1.5 rounded-full bg-white text-black font-bold hover:bg-neutral-200 disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ImageCropper;
@@ -0,0 +1,35 @@
+import LoadMore from "@/components/common/LoadMore";
+import { EmptyState, ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import MediaGrid from "@/components/post/MediaGrid";
+import PostCard from "@/components/post/PostCard";
+import { useUserPosts } from "@/hooks/use-posts";
+import type { ProfileTab } from "@/lib/api";
+
+const emptyMessages: Record<ProfileTab, (handle: string) => string> = {
+  posts: (handle) => `@${handle} hasn't posted anything yet.`,
+  replies: (handle) => `@${handle} hasn't replied to anyone yet.`,
+  media: (handle) => `Photos @${handle} posts will show up here.`,
+  likes: (handle) => `Posts @${handle} likes will show up here.`,
+};
+
+// One tab of a profile, paged independently of the others.
+const ProfileTabContent = ({ handle, tab }: { handle: string; tab: ProfileTab }) => {
+  const { data, isPending, isError, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } = useUserPosts(
+    handle,
+    tab
+  );
+  const posts = data?.pages.flatMap((page) => page.items) ?? [];
+
+  if (isPending) return <PostListSkeleton />;
+  if (isError) return <ErrorState message="Couldn't load these posts." onRetry={() => refetch()} />;
+  if (posts.length === 0) return <EmptyState>{emptyMessages[tab](handle)}</EmptyState>;
+
+  return (
+    <>
+      {tab === "media" ? <MediaGrid posts={posts} /> : posts.map((post) => <PostCard key={post.id} post={post} />)}
+      <LoadMore hasMore={hasNextPage} isLoading={isFetchingNextPage} onLoadMore={fetchNextPage} />
+    </>
+  );
+};
+
+export default ProfileTabContent;
@@ -0,0 +1,30 @@
+import type { FollowSuggestion } from "@/lib/data";
+import { cn } from "@/lib/utils";
+
+// Shared hashtags named in a reason before it falls back to a count.
+const TAGS_SHOWN = 2;
+
+// Mutual follows are the most persuasive reason, so they win when present.
+function suggestionReason({ user, mutuals, mutualCount, sharedHashtags }: FollowSuggestion): string | null {
+  if (mutualCount > 0) {
+    const others = mutualCount - mutuals.length;
+    const names = mutuals.map((m) => m.name);
+    if (others > 0) return `Followed by ${names.join(", ")} and ${others} ${others === 1 ? "other" : "others"}`;
+    return `Followed by ${names.join(" and ")}`;
+  }
+  if (sharedHashtags.length > 0) {
+    return `Also posts about ${sharedHashtags
+      .slice(0, TAGS_SHOWN)
+      .map((tag) => `#${tag}`)
+      .join(" and ")}`;
+  }
+  return user.followsMe ? "Follows you" : null;
+}
+
+const SuggestionReason = ({ suggestion, className }: { suggestion: FollowSuggestion; className?: string }) => {
+  const reason = suggestionReason(suggestion);
+  if (!reason) return null;
+  return <p className={cn("text-xs text-neutral-500 truncate", className)}>{reason}</p>;
+};
+
+export default SuggestionReason;
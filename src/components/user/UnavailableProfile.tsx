@@ -0,0 +1,30 @@
+import type { ReactNode } from "react";
+
+interface UnavailableProfileProps {
+  handle: string;
+  title: string;
+  children: ReactNode;
+}
+
+// Stands in for a profile that can't be shown: the page keeps its shape, with
+// a blank banner and avatar, and explains why it's empty.
+const UnavailableProfile = ({ handle, title, children }: UnavailableProfileProps) => (
+  <div>
+    <div className="border-b border-neutral-800">
+      <div className="h-48 bg-neutral-800 relative">
+        <div className="absolute -bottom-16 left-4 p-1 bg-neutral-950 rounded-full">
+          <div className="w-32 h-32 rounded-full bg-neutral-900 border-4 border-neutral-950" />
+        </div>
+      </div>
+      <div className="pt-20 pb-4 px-4">
+        <h2 className="text-2xl font-bold">@{handle}</h2>
+      </div>
+    </div>
+    <div className="px-8 py-12 max-w-sm mx-auto">
+      <h3 className="text-3xl font-extrabold">{title}</h3>
+      <p className="mt-2 text-neutral-500">{children}</p>
+    </div>
+  </div>
+);
+
+export default UnavailableProfile;
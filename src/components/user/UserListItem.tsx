@@ -0,0 +1,45 @@
+import { Link } from "react-router-dom";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import type { User } from "@/lib/data";
+import FollowButton from "./FollowButton";
+import FollowsYouBadge from "./FollowsYouBadge";
+
+interface UserListItemProps {
+  user: User;
+  /** A line under the bio, e.g. why the account is suggested. */
+  context?: React.ReactNode;
+  /** Shown after the follow button. */
+  action?: React.ReactNode;
+}
+
+const UserListItem = ({ user, context, action }: UserListItemProps) => (
+  <div className="flex items-start space-x-3 p-4 border-b border-neutral-800 hover:bg-neutral-900/50 transition-colors duration-200">
+    <Link to={`/profile/${user.handle}`}>
+      <Avatar className="w-12 h-12">
+        <AvatarImage src={user.avatarUrl} alt={user.name} />
+        <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
+      </Avatar>
+    </Link>
+    <div className="flex-1 min-w-0">
+      <div className="flex items-start justify-between">
+        <div className="min-w-0">
+          <Link to={`/profile/${user.handle}`} className="font-bold hover:underline block truncate">
+            {user.name}
+          </Link>
+          <div className="flex items-center space-x-2">
+            <span className="text-neutral-500 truncate">@{user.handle}</span>
+            {user.followsMe && <FollowsYouBadge />}
+          </div>
+        </div>
+        <div className="flex items-center space-x-1 shrink-0">
+          <FollowButton user={user} />
+          {action}
+        </div>
+      </div>
+      {user.bio && <p className="mt-1 text-neutral-300">{user.bio}</p>}
+      {context}
+    </div>
+  </div>
+);
+
+export default UserListItem;
@@ -0,0 +1,8 @@
+import { BadgeCheck } from "lucide-react";
+import { cn } from "@/lib/utils";
+
+const VerifiedBadge = ({ className }: { className?: string }) => (
+  <BadgeCheck className={cn("w-4 h-4 shrink-0 text-sky-500", className)} role="img" aria-label="Verified account" />
+);
+
+export default VerifiedBadge;
@@ -0,0 +1,51 @@
+import { Link } from "react-router-dom";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import { useFollowSuggestions } from "@/hooks/use-users";
+import { cn } from "@/lib/utils";
+import DismissSuggestionButton from "./DismissSuggestionButton";
+import FollowButton from "./FollowButton";
+import SuggestionReason from "./SuggestionReason";
+
+// Suggestions shown in the sidebar; the rest are on /suggestions.
+const CARD_SIZE = 3;
+
+const WhoToFollowCard = ({ className }: { className?: string }) => {
+  const { data } = useFollowSuggestions(CARD_SIZE);
+  const suggestions = data?.pages[0].items ?? [];
+  if (suggestions.length === 0) return null;
+
+  return (
+    <div className={cn("bg-neutral-900 rounded-2xl p-4", className)}>
+      <h3 className="text-xl font-bold mb-4">Who to follow</h3>
+      <div className="space-y-4">
+        {suggestions.map((suggestion) => {
+          const { user } = suggestion;
+          return (
+            <div key={user.handle} className="flex items-center justify-between space-x-2">
+              <Link to={`/profile/${user.handle}`} className="flex items-center space-x-3 min-w-0">
+                <Avatar className="shrink-0">
+                  <AvatarImage src={user.avatarUrl} alt={user.name} />
+                  <AvatarFallback>{user.name.charAt(0)}</AvatarFallback>
+                </Avatar>
+                <div className="min-w-0">
+                  <p className="font-semibold hover:underline truncate">{user.name}</p>
+                  <p className="text-neutral-500 text-sm truncate">@{user.handle}</p>
+                  <SuggestionReason suggestion={suggestion} />
+                </div>
+              </Link>
+              <div className="flex items-center shrink-0">
+                <FollowButton user={user} />
+                <DismissSuggestionButton user={user} />
+              </div>
+            </div>
+          );
+        })}
+      </div>
+      <Link to="/suggestions" className="text-sky-500 hover:underline mt-4 block">
+        Show more
+      </Link>
+    </div>
+  );
+};
+
+export default WhoToFollowCard;
@@ -0,0 +1,56 @@
+import { useMutation, useQuery, useQueryClient, type QueryClient } from "@tanstack/react-query";
+import { useLocation, type Location } from "react-router-dom";
+import { api, queryKeys, type LogInInput, type SignUpInput } from "@/lib/api";
+import type { User } from "@/lib/data";
+
+// Everything cached so far was fetched on behalf of the previous viewer, so
+// switching accounts drops it before installing the new session.
+function switchViewer(queryClient: QueryClient, user: User | null) {
+  queryClient.setQueryData(queryKeys.currentUser, user);
+  queryClient.removeQueries({
+    predicate: (query) => query.queryKey[0] !== queryKeys.currentUser[0],
+  });
+}
+
+// The signed-in user, `null` when signed out. Components below <RequireAuth>
+// should use `useCurrentUser` instead, which is never null.
+export function useSession() {
+  return useQuery({
+    queryKey: queryKeys.currentUser,
+    queryFn: () => api.getSession(),
+    staleTime: Infinity,
+  });
+}
+
+export function useLogIn() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: LogInInput) => api.logIn(input),
+    onSuccess: (user) => switchViewer(queryClient, user),
+  });
+}
+
+export function useSignUp() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: SignUpInput) => api.signUp(input),
+    onSuccess: (user) => switchViewer(queryClient, user),
+  });
+}
+
+export function useLogOut() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => api.logOut(),
+    onSuccess: () => switchViewer(queryClient, null),
+  });
+}
+
+// Where to go once signed in: back to the page <RequireAuth> redirected from.
+export function useReturnPath() {
+  const from = (useLocation().state as { from?: Location } | null)?.from;
+  return from ? `${from.pathname}${from.search}` : "/";
+}
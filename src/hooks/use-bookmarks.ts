@@ -0,0 +1,68 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api, queryKeys } from "@/lib/api";
+import type { BookmarkFolder } from "@/lib/data";
+
+// Bookmarking a post and filing it into a folder live in use-posts, next to
+// the other per-post toggles; these hooks cover the lists and the folders.
+
+export function useBookmarks(folderId?: string) {
+  return useQuery({
+    queryKey: queryKeys.bookmarks.list(folderId),
+    queryFn: () => api.getBookmarks(folderId),
+  });
+}
+
+export function useBookmarkFolders() {
+  return useQuery({
+    queryKey: queryKeys.bookmarks.folders,
+    queryFn: () => api.getBookmarkFolders(),
+  });
+}
+
+export function useBookmarkFolder(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.bookmarks.folder(id ?? ""),
+    queryFn: () => api.getBookmarkFolder(id!),
+    enabled: !!id,
+  });
+}
+
+export function useCreateBookmarkFolder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (name: string) => api.createBookmarkFolder(name),
+    onSuccess: (folder) => {
+      queryClient.setQueryData<BookmarkFolder[]>(queryKeys.bookmarks.folders, (folders) => folders && [...folders, folder]);
+    },
+  });
+}
+
+export function useRenameBookmarkFolder(id: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (name: string) => api.renameBookmarkFolder(id, name),
+    onSuccess: (folder) => {
+      queryClient.setQueryData(queryKeys.bookmarks.folder(id), folder);
+      queryClient.setQueryData<BookmarkFolder[]>(queryKeys.bookmarks.folders, (folders) =>
+        folders?.map((f) => (f.id === id ? folder : f))
+      );
+    },
+  });
+}
+
+// Deleting a folder unfiles its bookmarks, so every bookmark list refetches.
+export function useDeleteBookmarkFolder() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.deleteBookmarkFolder(id),
+    onSuccess: (_result, id) => {
+      queryClient.removeQueries({ queryKey: queryKeys.bookmarks.folder(id), exact: true });
+      queryClient.removeQueries({ queryKey: queryKeys.bookmarks.list(id), exact: true });
+      queryClient.invalidateQueries({ queryKey: queryKeys.bookmarks.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.posts.all });
+    },
+  });
+}
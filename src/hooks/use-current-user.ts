@@ -0,0 +1,12 @@
+import { createContext, useContext } from "react";
+import type { User } from "@/lib/data";
+
+// Provided by <RequireAuth> once a session is confirmed, so everything inside
+// the signed-in layout can read the viewer without handling a missing user.
+export const CurrentUserContext = createContext<User | null>(null);
+
+export function useCurrentUser(): User {
+  const user = useContext(CurrentUserContext);
+  if (!user) throw new Error("useCurrentUser must be used inside <RequireAuth>");
+  return user;
+}
@@ -0,0 +1,15 @@
+import { useEffect, useMemo, useState } from "react";
+import { debounce } from "@/lib/utils";
+
+// `value`, once it has stopped changing for `wait` ms.
+export function useDebouncedValue<T>(value: T, wait: number) {
+  const [debounced, setDebounced] = useState(value);
+  const update = useMemo(() => debounce((next: T) => setDebounced(next), wait), [wait]);
+
+  useEffect(() => {
+    update(value);
+    return update.cancel;
+  }, [value, update]);
+
+  return debounced;
+}
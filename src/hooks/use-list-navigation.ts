@@ -0,0 +1,26 @@
+import { useState } from "react";
+
+// Arrow-key highlighting for a list driven from a text input, as in a
+// combobox. `initial` is the highlighted index whenever the list changes
+// (-1 for none); Enter selects the highlighted item.
+export function useListNavigation(count: number, onSelect: (index: number) => void, initial = -1) {
+  const [state, setState] = useState({ count, active: initial });
+  // A different list means the old highlight points at the wrong item.
+  const active = state.count === count ? Math.min(state.active, count - 1) : initial;
+  const setActive = (index: number) => setState({ count, active: index });
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "ArrowDown" && count > 0) {
+      e.preventDefault();
+      setActive((active + 1) % count);
+    } else if (e.key === "ArrowUp" && count > 0) {
+      e.preventDefault();
+      setActive(active <= 0 ? count - 1 : active - 1);
+    } else if (e.key === "Enter" && active >= 0) {
+      e.preventDefault();
+      onSelect(active);
+    }
+  };
+
+  return { active, setActive, onKeyDown };
+}
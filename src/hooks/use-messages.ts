@@ -0,0 +1,149 @@
+import { useCallback, useEffect, useRef } from "react";
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+} from "@tanstack/react-query";
+import { api, queryKeys, type Page } from "@/lib/api";
+import type { Conversation, Message } from "@/lib/data";
+import { restoreQueries, snapshotQueries } from "@/lib/query-cache";
+import { useCurrentUser } from "./use-current-user";
+
+// Polling intervals. The open conversation polls fastest so replies and
+// typing show up promptly; the inbox and badges can lag a little.
+const THREAD_POLL_MS = 3000;
+const CONVERSATION_POLL_MS = 2000;
+const INBOX_POLL_MS = 10_000;
+const UNREAD_POLL_MS = 15_000;
+
+// How often a typing signal is renewed while the viewer keeps typing. Must
+// stay below the backend's expiry so the indicator doesn't flicker.
+const TYPING_RENEW_MS = 3000;
+
+export const OPTIMISTIC_MESSAGE_PREFIX = "optimistic-";
+
+export function useConversations() {
+  return useQuery({
+    queryKey: queryKeys.messages.conversations,
+    queryFn: () => api.getConversations(),
+    refetchInterval: INBOX_POLL_MS,
+  });
+}
+
+export function useConversation(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.messages.conversation(id ?? ""),
+    queryFn: () => api.getConversation(id!),
+    enabled: !!id,
+    refetchInterval: CONVERSATION_POLL_MS,
+  });
+}
+
+export function useMessages(conversationId: string | undefined) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.messages.thread(conversationId ?? ""),
+    queryFn: ({ pageParam }) => api.getMessages(conversationId!, { cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!conversationId,
+    refetchInterval: THREAD_POLL_MS,
+  });
+}
+
+export function useUnreadMessageCount() {
+  return useQuery({
+    queryKey: queryKeys.messages.unread,
+    queryFn: () => api.getUnreadMessageCount(),
+    refetchInterval: UNREAD_POLL_MS,
+  });
+}
+
+export function useStartConversation() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (handle: string) => api.startConversation(handle),
+    onSuccess: (conversation) => {
+      queryClient.setQueryData(queryKeys.messages.conversation(conversation.id), conversation);
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.conversations });
+    },
+  });
+}
+
+// Appends the message to the open conversation straight away and rolls it
+// back if sending fails.
+export function useSendMessage(conversationId: string) {
+  const queryClient = useQueryClient();
+  const currentUser = useCurrentUser();
+  const threadKey = queryKeys.messages.thread(conversationId);
+
+  return useMutation({
+    mutationFn: (content: string) => api.sendMessage(conversationId, content),
+    onMutate: async (content) => {
+      const snapshot = await snapshotQueries(queryClient, threadKey);
+      const optimistic: Message = {
+        id: `${OPTIMISTIC_MESSAGE_PREFIX}${Date.now()}`,
+        conversationId,
+        sender: currentUser,
+        content: content.trim(),
+        timestamp: new Date().toISOString(),
+        seen: false,
+      };
+      queryClient.setQueryData<InfiniteData<Page<Message>>>(threadKey, (thread) =>
+        thread && {
+          ...thread,
+          pages: thread.pages.map((page, index) =>
+            index === 0 ? { ...page, items: [optimistic, ...page.items] } : page
+          ),
+        }
+      );
+      return { snapshot };
+    },
+    onError: (_error, _content, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: threadKey });
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.conversations });
+    },
+  });
+}
+
+export function useMarkConversationRead(conversationId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => api.markConversationRead(conversationId),
+    onSuccess: (conversation) => {
+      queryClient.setQueryData<Conversation>(queryKeys.messages.conversation(conversationId), conversation);
+      queryClient.setQueryData<Conversation[]>(queryKeys.messages.conversations, (conversations) =>
+        conversations?.map((c) => (c.id === conversation.id ? conversation : c))
+      );
+      queryClient.invalidateQueries({ queryKey: queryKeys.messages.unread });
+    },
+  });
+}
+
+// Tells the other participant the viewer is typing. `onType` can be called
+// on every keystroke; the signal is renewed at most every TYPING_RENEW_MS and
+// cleared by `stop` or when the component unmounts.
+export function useTypingSignal(conversationId: string) {
+  const lastSent = useRef(0);
+
+  const stop = useCallback(() => {
+    if (!lastSent.current) return;
+    lastSent.current = 0;
+    api.setTyping(conversationId, false).catch(() => {});
+  }, [conversationId]);
+
+  const onType = useCallback(() => {
+    const now = Date.now();
+    if (now - lastSent.current < TYPING_RENEW_MS) return;
+    lastSent.current = now;
+    api.setTyping(conversationId, true).catch(() => {});
+  }, [conversationId]);
+
+  useEffect(() => stop, [stop]);
+
+  return { onType, stop };
+}
@@ -0,0 +1,151 @@
+import { useEffect } from "react";
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api, queryKeys, type NotificationFilter } from "@/lib/api";
+import type { Notification, NotificationPreferences } from "@/lib/data";
+import { matchesNotificationFilter } from "@/lib/notifications";
+import { patchQueries, restoreQueries, snapshotQueries } from "@/lib/query-cache";
+
+// How often notifications are re-fetched while no live stream is connected.
+const NOTIFICATIONS_POLL_MS = 30_000;
+
+const isNotification = (value: object): value is Notification => "type" in value && "read" in value;
+
+export function useNotifications(filter: NotificationFilter = "all") {
+  return useQuery({
+    queryKey: queryKeys.notifications.list(filter),
+    queryFn: () => api.getNotifications(filter),
+  });
+}
+
+export function useUnreadNotificationCount() {
+  return useQuery({
+    queryKey: queryKeys.notifications.unread,
+    queryFn: () => api.getUnreadNotificationCount(),
+  });
+}
+
+// Keeps notifications live for as long as it is mounted. New ones arrive over
+// the backend's stream when it has one; otherwise, and whenever the stream is
+// down, the notification queries are polled instead.
+export function useNotificationStream() {
+  const queryClient = useQueryClient();
+
+  useEffect(() => {
+    let poll: ReturnType<typeof setInterval> | undefined;
+    const refresh = () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all });
+
+    const startPolling = () => {
+      if (poll === undefined) poll = setInterval(refresh, NOTIFICATIONS_POLL_MS);
+    };
+    const stopPolling = () => {
+      clearInterval(poll);
+      poll = undefined;
+    };
+
+    if (!api.subscribeToNotifications) {
+      startPolling();
+      return stopPolling;
+    }
+
+    const unsubscribe = api.subscribeToNotifications({
+      onNotification: (notification) => {
+        for (const filter of ["all", "mentions", "verified"] as const) {
+          if (!matchesNotificationFilter(notification, filter)) continue;
+          queryClient.setQueryData<Notification[]>(queryKeys.notifications.list(filter), (list) =>
+            list && !list.some((n) => n.id === notification.id) ? [notification, ...list] : list
+          );
+        }
+        if (!notification.read) {
+          queryClient.setQueryData<number>(queryKeys.notifications.unread, (count) =>
+            count === undefined ? count : count + 1
+          );
+        }
+      },
+      onStatus: (connected) => {
+        if (!connected) {
+          startPolling();
+        } else if (poll !== undefined) {
+          // Catch up on anything sent while disconnected.
+          refresh();
+          stopPolling();
+        }
+      },
+    });
+
+    return () => {
+      unsubscribe();
+      stopPolling();
+    };
+  }, [queryClient]);
+}
+
+// Marks notifications read (a whole group at once), dimming them and the
+// badge straight away.
+export function useMarkNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (ids: string[]) => Promise.all(ids.map((id) => api.markNotificationRead(id))),
+    onMutate: async (ids) => {
+      const snapshot = await snapshotQueries(queryClient, queryKeys.notifications.all);
+      const unread = new Set<string>();
+      patchQueries(
+        queryClient,
+        queryKeys.notifications.lists,
+        (item): item is Notification => isNotification(item) && ids.includes(item.id) && !item.read,
+        (notification) => {
+          unread.add(notification.id);
+          return { ...notification, read: true };
+        }
+      );
+      queryClient.setQueryData<number>(queryKeys.notifications.unread, (count) =>
+        count === undefined ? count : Math.max(0, count - unread.size)
+      );
+      return { snapshot };
+    },
+    onError: (_error, _ids, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+}
+
+export function useMarkAllNotificationsRead() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: () => api.markAllNotificationsRead(),
+    onMutate: async () => {
+      const snapshot = await snapshotQueries(queryClient, queryKeys.notifications.all);
+      patchQueries(queryClient, queryKeys.notifications.lists, isNotification, (notification) => ({
+        ...notification,
+        read: true,
+      }));
+      queryClient.setQueryData<number>(queryKeys.notifications.unread, 0);
+      return { snapshot };
+    },
+    onError: (_error, _variables, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.notifications.all }),
+  });
+}
+
+export function useNotificationPreferences() {
+  return useQuery({
+    queryKey: queryKeys.settings.notifications,
+    queryFn: () => api.getNotificationPreferences(),
+  });
+}
+
+// Each control saves on change, so the page reflects it before the server does.
+export function useUpdateNotificationPreferences() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (preferences: NotificationPreferences) => api.updateNotificationPreferences(preferences),
+    onMutate: async (preferences) => {
+      const snapshot = await snapshotQueries(queryClient, queryKeys.settings.notifications);
+      queryClient.setQueryData(queryKeys.settings.notifications, preferences);
+      return { snapshot };
+    },
+    onError: (_error, _preferences, context) => restoreQueries(queryClient, context?.snapshot),
+    onSuccess: (preferences) => queryClient.setQueryData(queryKeys.settings.notifications, preferences),
+  });
+}
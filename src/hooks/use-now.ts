@@ -0,0 +1,34 @@
+import { useSyncExternalStore } from "react";
+
+// How often relative timestamps refresh. One shared timer drives every
+// subscriber, so a long feed costs a single interval rather than one per post.
+const TICK_MS = 15_000;
+
+let now = Date.now();
+const listeners = new Set<() => void>();
+let timer: ReturnType<typeof setInterval> | undefined;
+
+const subscribe = (listener: () => void) => {
+  listeners.add(listener);
+  if (!timer) {
+    now = Date.now();
+    timer = setInterval(() => {
+      now = Date.now();
+      listeners.forEach((notify) => notify());
+    }, TICK_MS);
+  }
+  return () => {
+    listeners.delete(listener);
+    if (listeners.size === 0) {
+      clearInterval(timer);
+      timer = undefined;
+    }
+  };
+};
+
+const getSnapshot = () => now;
+
+// The current time in ms, re-rendering the caller on every shared tick.
+export function useNow() {
+  return useSyncExternalStore(subscribe, getSnapshot);
+}
@@ -0,0 +1,276 @@
+import { useRef } from "react";
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+  type QueryKey,
+} from "@tanstack/react-query";
+import {
+  api,
+  queryKeys,
+  type CreatePostInput,
+  type FeedKind,
+  type FeedPage,
+  type ProfileTab,
+  type ReplyNode,
+  type ReplyPage,
+  type Thread,
+} from "@/lib/api";
+import type { Post, User } from "@/lib/data";
+import { patchQueries, restoreQueries, snapshotQueries } from "@/lib/query-cache";
+import { useCurrentUser } from "./use-current-user";
+
+// Ids of posts that only exist in the cache until the backend confirms them.
+export const OPTIMISTIC_ID_PREFIX = "optimistic-";
+
+const isPost = (value: object): value is Post => "id" in value && "author" in value;
+
+// Every cache that holds posts: the posts tree itself, bookmark lists and
+// search results.
+const POST_QUERY_KEYS = [queryKeys.posts.all, queryKeys.bookmarks.all, queryKeys.search.all];
+
+// Applies `patch` to post `id` wherever it appears in the cache.
+function patchPost(queryClient: QueryClient, id: string, patch: (post: Post) => Post) {
+  for (const key of POST_QUERY_KEYS) {
+    patchQueries(queryClient, key, (item): item is Post => isPost(item) && item.id === id, patch);
+  }
+}
+
+const snapshotPosts = async (queryClient: QueryClient) =>
+  (await Promise.all(POST_QUERY_KEYS.map((key) => snapshotQueries(queryClient, key)))).flat();
+
+// How often the feed checks for posts newer than its snapshot.
+const NEW_POSTS_POLL_MS = 30_000;
+
+// Feeds never refetch on their own: reshuffling the list under the reader
+// would lose their place. Fresh posts are announced by `useNewPostCount`.
+export function useFeed(kind: FeedKind) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.posts.feed(kind),
+    queryFn: ({ pageParam }) => api.getFeed(kind, { cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    staleTime: Infinity,
+  });
+}
+
+export function useNewPostCount(kind: FeedKind, since: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.posts.newCount(kind, since ?? ""),
+    queryFn: () => api.countNewPosts(kind, since!),
+    enabled: !!since,
+    refetchInterval: NEW_POSTS_POLL_MS,
+  });
+}
+
+export function useUserPosts(handle: string | undefined, tab: ProfileTab) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.posts.byUser(handle ?? "", tab),
+    queryFn: ({ pageParam }) => api.getUserPosts(handle!, tab, { cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!handle,
+  });
+}
+
+export function useHashtag(tag: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.hashtags.detail(tag ?? ""),
+    queryFn: () => api.getHashtag(tag!),
+    enabled: !!tag,
+  });
+}
+
+export function useHashtagPosts(tag: string | undefined) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.posts.hashtag(tag ?? ""),
+    queryFn: ({ pageParam }) => api.getHashtagPosts(tag!, { cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!tag,
+  });
+}
+
+export function useThread(id: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.posts.thread(id ?? ""),
+    queryFn: () => api.getThread(id!),
+    enabled: !!id,
+  });
+}
+
+// Appends the next page of replies under `parentId` inside the cached thread.
+function appendReplies(page: ReplyPage, parentId: string, threadPostId: string, next: ReplyPage): ReplyPage {
+  if (parentId === threadPostId) {
+    return { items: [...page.items, ...next.items], remaining: next.remaining };
+  }
+  return {
+    ...page,
+    items: page.items.map((node): ReplyNode => ({
+      ...node,
+      replies: appendReplies(node.replies, parentId, node.post.id, next),
+    })),
+  };
+}
+
+// Loads more replies for any node of the thread rooted at `threadId`.
+export function useShowMoreReplies(threadId: string) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ parentId, offset }: { parentId: string; offset: number }) =>
+      api.getReplies(parentId, { offset }),
+    onSuccess: (next, { parentId }) => {
+      queryClient.setQueryData<Thread>(queryKeys.posts.thread(threadId), (thread) =>
+        thread && {
+          ...thread,
+          replies: appendReplies(thread.replies, parentId, thread.post.id, next),
+        }
+      );
+    },
+  });
+}
+
+// Inserts the new post at the top of the feeds (or bumps the parent's reply
+// count) immediately and rolls back if the backend rejects it.
+export function useCreatePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreatePostInput) => api.createPost(input),
+    onMutate: async (input) => {
+      const snapshot = await snapshotPosts(queryClient);
+
+      if (input.replyTo) {
+        patchPost(queryClient, input.replyTo, (post) => ({ ...post, comments: post.comments + 1 }));
+        return { snapshot };
+      }
+
+      const author = queryClient.getQueryData<User>(queryKeys.currentUser);
+      if (!author) return { snapshot };
+      const optimistic: Post = {
+        id: `${OPTIMISTIC_ID_PREFIX}${Date.now()}`,
+        author,
+        content: input.content.trim(),
+        media: input.media,
+        timestamp: new Date().toISOString(),
+        likes: 0,
+        reposts: 0,
+        comments: 0,
+      };
+      queryClient.setQueriesData<InfiniteData<FeedPage>>({ queryKey: queryKeys.posts.feeds }, (feed) =>
+        feed && {
+          ...feed,
+          pages: feed.pages.map((page, index) =>
+            index === 0 ? { ...page, items: [optimistic, ...page.items] } : page
+          ),
+        }
+      );
+      return { snapshot };
+    },
+    onError: (_error, _input, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.posts.all }),
+  });
+}
+
+export function useDeletePost() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.deletePost(id),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.posts.all }),
+  });
+}
+
+interface ToggleConfig {
+  isActive: (post: Post) => boolean;
+  toggle: (post: Post, active: boolean) => Post;
+  request: (id: string, active: boolean) => Promise<Post>;
+  /** Lists the post joins or leaves, refetched once the request settles. */
+  invalidates?: QueryKey;
+}
+
+// Shared optimistic toggle for per-viewer post state. Clicks that arrive
+// while a request for the same post is still in flight are dropped, so a
+// rapid double click cannot fire like → unlike against the backend.
+function usePostToggle(post: Post, { isActive, toggle, request, invalidates }: ToggleConfig) {
+  const queryClient = useQueryClient();
+  const inFlight = useRef(false);
+
+  const mutation = useMutation({
+    mutationFn: (active: boolean) => request(post.id, active),
+    onMutate: async (active) => {
+      const snapshot = await snapshotPosts(queryClient);
+      patchPost(queryClient, post.id, (current) => toggle(current, active));
+      return { snapshot };
+    },
+    onError: (_error, _active, context) => restoreQueries(queryClient, context?.snapshot),
+    onSuccess: (updated) => patchPost(queryClient, updated.id, () => updated),
+    onSettled: () => {
+      inFlight.current = false;
+      if (invalidates) queryClient.invalidateQueries({ queryKey: invalidates });
+    },
+  });
+
+  return {
+    active: isActive(post),
+    isPending: mutation.isPending,
+    toggle: () => {
+      if (inFlight.current) return;
+      inFlight.current = true;
+      mutation.mutate(!isActive(post));
+    },
+  };
+}
+
+export function useToggleLike(post: Post) {
+  const viewer = useCurrentUser();
+
+  return usePostToggle(post, {
+    isActive: (p) => !!p.likedByMe,
+    toggle: (p, liked) => ({ ...p, likedByMe: liked, likes: Math.max(0, p.likes + (liked ? 1 : -1)) }),
+    request: (id, liked) => (liked ? api.likePost(id) : api.unlikePost(id)),
+    invalidates: queryKeys.posts.byUser(viewer.handle, "likes"),
+  });
+}
+
+export function useToggleRepost(post: Post) {
+  return usePostToggle(post, {
+    isActive: (p) => !!p.repostedByMe,
+    toggle: (p, reposted) => ({
+      ...p,
+      repostedByMe: reposted,
+      reposts: Math.max(0, p.reposts + (reposted ? 1 : -1)),
+    }),
+    request: (id, reposted) => (reposted ? api.repost(id) : api.undoRepost(id)),
+  });
+}
+
+export function useToggleBookmark(post: Post) {
+  return usePostToggle(post, {
+    isActive: (p) => !!p.bookmarkedByMe,
+    toggle: (p, bookmarked) => ({ ...p, bookmarkedByMe: bookmarked, bookmarkFolderId: undefined }),
+    request: (id, bookmarked) => (bookmarked ? api.addBookmark(id) : api.removeBookmark(id)),
+    invalidates: queryKeys.bookmarks.all,
+  });
+}
+
+// Files a bookmarked post under a folder (or takes it out with `null`).
+export function useMoveBookmark() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: ({ id, folderId }: { id: string; folderId: string | null }) => api.moveBookmark(id, folderId),
+    onMutate: async ({ id, folderId }) => {
+      const snapshot = await snapshotPosts(queryClient);
+      patchPost(queryClient, id, (post) => ({ ...post, bookmarkFolderId: folderId ?? undefined }));
+      return { snapshot };
+    },
+    onError: (_error, _move, context) => restoreQueries(queryClient, context?.snapshot),
+    onSuccess: (updated) => patchPost(queryClient, updated.id, () => updated),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.bookmarks.all }),
+  });
+}
@@ -0,0 +1,75 @@
+import { keepPreviousData, useInfiniteQuery, useQuery } from "@tanstack/react-query";
+import { api, queryKeys, type PostSearchSort } from "@/lib/api";
+import { useDebouncedValue } from "./use-debounced-value";
+
+// Keystrokes are settled for this long before a typeahead request goes out.
+const SUGGESTION_DEBOUNCE_MS = 250;
+
+// Grouped typeahead matches for what the user is typing. The previous
+// results stay up while the next ones load, so the list doesn't flash.
+export function useSearchSuggestions(query: string) {
+  const debounced = useDebouncedValue(query.trim(), SUGGESTION_DEBOUNCE_MS);
+
+  const result = useQuery({
+    queryKey: queryKeys.search.suggestions(debounced),
+    queryFn: () => api.search(debounced),
+    enabled: !!debounced,
+    placeholderData: keepPreviousData,
+  });
+
+  return { ...result, query: debounced, isSettling: debounced !== query.trim() };
+}
+
+// The best-matching hashtags for autocomplete, most used first among equals.
+export function useHashtagSuggestions(query: string, limit: number) {
+  const debounced = useDebouncedValue(query, SUGGESTION_DEBOUNCE_MS);
+
+  return useQuery({
+    queryKey: queryKeys.search.hashtagSuggestions(debounced, limit),
+    queryFn: () => api.searchHashtags(debounced, { limit }),
+    select: (page) => page.items.map((hashtag) => hashtag.tag),
+    enabled: !!debounced,
+    placeholderData: keepPreviousData,
+  });
+}
+
+export function useSearchUsers(query: string) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.search.users(query),
+    queryFn: ({ pageParam }) => api.searchUsers(query, { cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!query,
+  });
+}
+
+export function useSearchPosts(query: string, sort: PostSearchSort) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.search.posts(query, sort),
+    queryFn: ({ pageParam }) => api.searchPosts(query, { cursor: pageParam, sort }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!query,
+  });
+}
+
+export function useSearchHashtags(query: string) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.search.hashtags(query),
+    queryFn: ({ pageParam }) => api.searchHashtags(query, { cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!query,
+  });
+}
+
+// Trends move over hours, so an occasional refresh keeps the sidebar current.
+const TRENDS_POLL_MS = 5 * 60_000;
+
+export function useTrends() {
+  return useQuery({
+    queryKey: queryKeys.trends,
+    queryFn: () => api.getTrends(),
+    refetchInterval: TRENDS_POLL_MS,
+  });
+}
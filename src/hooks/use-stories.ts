@@ -0,0 +1,44 @@
+import { useMutation, useQuery, useQueryClient } from "@tanstack/react-query";
+import { api, queryKeys, type CreateStoryInput } from "@/lib/api";
+import type { StoryReel } from "@/lib/data";
+
+// Stories expire on the server; re-fetching now and then drops them from the
+// bar without a reload.
+const STORIES_POLL_MS = 60_000;
+
+export function useStoryReels() {
+  return useQuery({
+    queryKey: queryKeys.stories,
+    queryFn: () => api.getStoryReels(),
+    refetchInterval: STORIES_POLL_MS,
+  });
+}
+
+export function useCreateStory() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: CreateStoryInput) => api.createStory(input),
+    onSuccess: () => queryClient.invalidateQueries({ queryKey: queryKeys.stories }),
+  });
+}
+
+// Marks a story seen as it starts playing. The ring in the bar updates right
+// away; reels aren't re-ordered until the next fetch, so the viewer's queue
+// stays put.
+export function useMarkStorySeen() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (id: string) => api.markStorySeen(id),
+    onMutate: (id) => {
+      queryClient.setQueryData<StoryReel[]>(queryKeys.stories, (reels) =>
+        reels?.map((reel) => {
+          if (!reel.stories.some((story) => story.id === id && !story.seen)) return reel;
+          const stories = reel.stories.map((story) => (story.id === id ? { ...story, seen: true } : story));
+          return { ...reel, stories, seen: stories.every((story) => story.seen) };
+        })
+      );
+    },
+  });
+}
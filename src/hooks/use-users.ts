@@ -0,0 +1,142 @@
+import {
+  useInfiniteQuery,
+  useMutation,
+  useQuery,
+  useQueryClient,
+  type InfiniteData,
+  type QueryClient,
+} from "@tanstack/react-query";
+import { api, queryKeys, type Page, type UpdateProfileInput } from "@/lib/api";
+import type { FollowSuggestion, User, UserProfile } from "@/lib/data";
+import { patchQueries, restoreQueries, snapshotQueries, type QuerySnapshot } from "@/lib/query-cache";
+
+const isUser = (value: object): value is User => "handle" in value && "followers" in value;
+
+// Applies `patch` to every cached copy of user `handle`.
+function patchUser(queryClient: QueryClient, handle: string, patch: (user: User) => User) {
+  const match = (item: object): item is User => isUser(item) && item.handle === handle;
+  patchQueries(queryClient, queryKeys.users.all, match, patch);
+  patchQueries(queryClient, queryKeys.currentUser, match, patch);
+  patchQueries(queryClient, queryKeys.suggestions.all, match, patch);
+}
+
+export function useUsers() {
+  return useQuery({
+    queryKey: queryKeys.users.all,
+    queryFn: () => api.getUsers(),
+  });
+}
+
+export function useUser(handle: string | undefined) {
+  return useQuery({
+    queryKey: queryKeys.users.detail(handle ?? ""),
+    queryFn: () => api.getUser(handle!),
+    enabled: !!handle,
+  });
+}
+
+export function useFollowList(handle: string | undefined, kind: "followers" | "following") {
+  return useInfiniteQuery({
+    queryKey: queryKeys.users[kind](handle ?? ""),
+    queryFn: ({ pageParam }) =>
+      kind === "followers"
+        ? api.getFollowers(handle!, { cursor: pageParam })
+        : api.getFollowing(handle!, { cursor: pageParam }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+    enabled: !!handle,
+  });
+}
+
+// Saves the viewer's profile. Posts, notifications and conversations embed
+// profiles too, so every cached copy is patched, not just the user queries.
+export function useUpdateProfile() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (input: UpdateProfileInput) => api.updateProfile(input),
+    onSuccess: (user) => {
+      const { name, bio, location, website, avatarUrl, coverUrl } = user;
+      patchQueries(
+        queryClient,
+        [],
+        (item): item is UserProfile => "handle" in item && "avatarUrl" in item && item.handle === user.handle,
+        (profile) => ({ ...profile, name, bio, location, website, avatarUrl, coverUrl })
+      );
+    },
+  });
+}
+
+// Follows or unfollows `user`, updating both sides' counts optimistically.
+export function useToggleFollow(user: User) {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (follow: boolean) =>
+      follow ? api.followUser(user.handle) : api.unfollowUser(user.handle),
+    onMutate: async (follow) => {
+      const snapshot: QuerySnapshot = [
+        ...(await snapshotQueries(queryClient, queryKeys.users.all)),
+        ...(await snapshotQueries(queryClient, queryKeys.currentUser)),
+        ...(await snapshotQueries(queryClient, queryKeys.suggestions.all)),
+      ];
+      const delta = follow ? 1 : -1;
+      patchUser(queryClient, user.handle, (u) => ({
+        ...u,
+        followedByMe: follow,
+        followers: Math.max(0, u.followers + delta),
+      }));
+      const viewer = queryClient.getQueryData<User>(queryKeys.currentUser);
+      if (viewer) {
+        patchUser(queryClient, viewer.handle, (u) => ({ ...u, following: Math.max(0, u.following + delta) }));
+      }
+      return { snapshot };
+    },
+    onError: (_error, _follow, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => {
+      queryClient.invalidateQueries({ queryKey: queryKeys.users.all });
+      queryClient.invalidateQueries({ queryKey: queryKeys.currentUser });
+      queryClient.invalidateQueries({ queryKey: queryKeys.suggestions.all });
+      // Feeds never go stale on their own, but who the viewer follows decides
+      // the Following feed and weighs into For you.
+      queryClient.invalidateQueries({ queryKey: queryKeys.posts.feeds });
+    },
+  });
+}
+
+// "Who to follow", `limit` at a time.
+export function useFollowSuggestions(limit?: number) {
+  return useInfiniteQuery({
+    queryKey: queryKeys.suggestions.list(limit),
+    queryFn: ({ pageParam }) => api.getFollowSuggestions({ cursor: pageParam, limit }),
+    initialPageParam: null as string | null,
+    getNextPageParam: (lastPage) => lastPage.nextCursor,
+  });
+}
+
+// Drops a suggestion from every list straight away; the refetch afterwards
+// fills the gap it leaves.
+export function useDismissSuggestion() {
+  const queryClient = useQueryClient();
+
+  return useMutation({
+    mutationFn: (handle: string) => api.dismissFollowSuggestion(handle),
+    onMutate: async (handle) => {
+      const snapshot = await snapshotQueries(queryClient, queryKeys.suggestions.all);
+      queryClient.setQueriesData<InfiniteData<Page<FollowSuggestion>>>(
+        { queryKey: queryKeys.suggestions.all },
+        (data) =>
+          data && {
+            ...data,
+            pages: data.pages.map((page) => ({
+              ...page,
+              items: page.items.filter((suggestion) => suggestion.user.handle !== handle),
+            })),
+          }
+      );
+      return { snapshot };
+    },
+    onError: (_error, _handle, context) => restoreQueries(queryClient, context?.snapshot),
+    onSettled: () => queryClient.invalidateQueries({ queryKey: queryKeys.suggestions.all }),
+  });
+}
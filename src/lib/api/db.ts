@@ -0,0 +1,271 @@
+import {
+  notifications,
+  posts,
+  users,
+  type Notification,
+  type NotificationPreferences,
+  type PostMedia,
+  type StoryBackground,
+  type UserProfile,
+} from "../data";
+
+// Normalised storage shape shared by the in-memory mock and the local API
+// server. Records reference each other by handle/id; the service layer
+// hydrates them back into the `User`/`Post`/`Notification` view models.
+export interface PostRecord {
+  id: string;
+  authorHandle: string;
+  content: string;
+  media?: PostMedia[];
+  /** Set when the post is a reply. */
+  parentId?: string;
+  rootId?: string;
+  createdAt: string;
+  likes: number;
+  reposts: number;
+  comments: number;
+}
+
+export interface NotificationRecord {
+  id: string;
+  type: Notification["type"];
+  recipientHandle: string;
+  actorHandle: string;
+  postId?: string;
+  createdAt: string;
+  /** When the recipient read it; unset while unread. */
+  readAt?: string;
+  /** Set when it arrived during the recipient's quiet hours: it stays hidden
+   * until then. */
+  deliverAt?: string;
+}
+
+// A viewer's like, repost or bookmark of a post.
+export interface PostInteraction {
+  handle: string;
+  postId: string;
+  createdAt: string;
+}
+
+// Bookmarks are interactions that can additionally be filed into a folder.
+export interface BookmarkRecord extends PostInteraction {
+  folderId?: string;
+}
+
+export interface BookmarkFolderRecord {
+  id: string;
+  /** Owner of the folder. */
+  handle: string;
+  name: string;
+  createdAt: string;
+}
+
+export interface FollowRecord {
+  followerHandle: string;
+  followeeHandle: string;
+  createdAt: string;
+}
+
+export interface NotificationPreferencesRecord extends NotificationPreferences {
+  handle: string;
+}
+
+// An account the viewer asked not to be suggested again.
+export interface DismissedSuggestionRecord {
+  handle: string;
+  dismissedHandle: string;
+  createdAt: string;
+}
+
+export interface StoryRecord {
+  id: string;
+  authorHandle: string;
+  imageUrl?: string;
+  text?: string;
+  background?: StoryBackground;
+  createdAt: string;
+}
+
+export interface StoryViewRecord {
+  handle: string;
+  storyId: string;
+  createdAt: string;
+}
+
+export interface ConversationRecord {
+  id: string;
+  /** Handles of both participants. */
+  participants: [string, string];
+  createdAt: string;
+  /** When each participant last read the conversation, by handle. */
+  readAt: Record<string, string>;
+  /** Until when each participant counts as typing, by handle. */
+  typingUntil: Record<string, string>;
+}
+
+export interface MessageRecord {
+  id: string;
+  conversationId: string;
+  senderHandle: string;
+  content: string;
+  createdAt: string;
+}
+
+// Sign-in credentials for a profile. Passwords are stored as salted
+// PBKDF2 hashes, never in the clear.
+export interface AccountRecord {
+  handle: string;
+  email: string;
+  salt: string;
+  passwordHash: string;
+}
+
+export interface SessionRecord {
+  token: string;
+  handle: string;
+  createdAt: string;
+}
+
+export interface Database {
+  users: UserProfile[];
+  posts: PostRecord[];
+  notifications: NotificationRecord[];
+  likes: PostInteraction[];
+  reposts: PostInteraction[];
+  bookmarks: BookmarkRecord[];
+  bookmarkFolders: BookmarkFolderRecord[];
+  follows: FollowRecord[];
+  dismissedSuggestions: DismissedSuggestionRecord[];
+  notificationPreferences: NotificationPreferencesRecord[];
+  stories: StoryRecord[];
+  storyViews: StoryViewRecord[];
+  conversations: ConversationRecord[];
+  messages: MessageRecord[];
+  accounts: AccountRecord[];
+  sessions: SessionRecord[];
+}
+
+// Every seeded account signs in with DEMO_PASSWORD. The hash is precomputed
+// because hashing is async and seeding is not.
+export const DEMO_PASSWORD = "societal-demo";
+const DEMO_SALT = "societal-demo-salt";
+const DEMO_PASSWORD_HASH = "babf62e2ceadecd560d37abb40048768db90c3dd20bd70cbdeef9a9845075bc7";
+
+// Who follows whom in the seeded network, as [follower, followee] pairs.
+const SEED_FOLLOWS: [string, string][] = [
+  ["alexdoe", "janesmith"],
+  ["alexdoe", "devguru"],
+  ["janesmith", "alexdoe"],
+  ["janesmith", "oliviachen"],
+  ["devguru", "alexdoe"],
+  ["oliviachen", "janesmith"],
+];
+
+// Seeded direct messages as [conversation, sender, text, minutes ago]. Both
+// conversations include the first account and end with messages they
+// haven't read yet.
+const SEED_CONVERSATIONS: [string, [string, string]][] = [
+  ["dm1", ["alexdoe", "janesmith"]],
+  ["dm2", ["alexdoe", "devguru"]],
+];
+
+const SEED_MESSAGES: [string, string, string, number][] = [
+  ["dm1", "janesmith", "Hey! Did you see the new portfolio?", 26 * 60],
+  ["dm1", "alexdoe", "Just did, the case studies are great", 25 * 60],
+  ["dm1", "alexdoe", "How long did the animations take?", 25 * 60 - 1],
+  ["dm1", "janesmith", "Way too long 😅 a couple of weekends", 90],
+  ["dm1", "janesmith", "Want to pair on your site next week?", 88],
+  ["dm2", "alexdoe", "Your debugging post made my day", 3 * 24 * 60],
+  ["dm2", "devguru", "Ha, it's all true though", 3 * 24 * 60 - 5],
+  ["dm2", "devguru", "Are you going to the meetup on Thursday?", 12],
+];
+
+// Seeded stories as [id, author, content, minutes ago]. The oldest is past
+// the 24-hour mark, so it has already expired.
+const SEED_STORIES: [string, string, Pick<StoryRecord, "imageUrl" | "text" | "background">, number][] = [
+  [
+    "story1",
+    "devguru",
+    {
+      imageUrl:
+        "https://images.unsplash.com/photo-1510915228340-29c85a43dcfe?ixlib=rb-4.0.3&auto=format&fit=crop&w=1080&q=80",
+      text: "Today's office",
+    },
+    5 * 60,
+  ],
+  ["story2", "devguru", { text: "Day 3 of debugging a race condition. Send coffee.", background: "night" }, 40],
+  ["story3", "janesmith", { text: "Portfolio v2 is live ✨ link in bio", background: "sky" }, 3 * 60],
+  ["story4", "oliviachen", { text: "Next stop: Lisbon. Recommendations welcome!", background: "sunset" }, 25 * 60],
+];
+
+const MINUTE_MS = 60 * 1000;
+
+export function createSeedDatabase(now = Date.now()): Database {
+  // Fixture notifications are all addressed to the first account.
+  const recipientHandle = users[0].handle;
+  const seededAt = new Date(now).toISOString();
+
+  return {
+    users: users.map((user) => ({ ...user })),
+    posts: posts.map(({ author, timestamp, ...post }) => ({
+      ...post,
+      authorHandle: author.handle,
+      createdAt: timestamp,
+    })),
+    notifications: notifications.map(({ user, post, timestamp, read, ...notification }) => ({
+      ...notification,
+      recipientHandle,
+      actorHandle: user.handle,
+      postId: post?.id,
+      createdAt: timestamp,
+      readAt: read ? timestamp : undefined,
+    })),
+    likes: [],
+    reposts: [],
+    bookmarks: [],
+    bookmarkFolders: [],
+    follows: SEED_FOLLOWS.map(([followerHandle, followeeHandle]) => ({
+      followerHandle,
+      followeeHandle,
+      createdAt: seededAt,
+    })),
+    dismissedSuggestions: [],
+    notificationPreferences: [],
+    stories: SEED_STORIES.map(([id, authorHandle, content, minutes]) => ({
+      id,
+      authorHandle,
+      ...content,
+      createdAt: new Date(now - minutes * MINUTE_MS).toISOString(),
+    })),
+    storyViews: [],
+    conversations: SEED_CONVERSATIONS.map(([id, participants]) => {
+      // Everyone has read up to their own latest message.
+      const lastRead = (handle: string) => {
+        const sent = SEED_MESSAGES.filter(([conversation, sender]) => conversation === id && sender === handle);
+        const minutes = Math.min(...sent.map(([, , , age]) => age));
+        return sent.length ? new Date(now - minutes * MINUTE_MS).toISOString() : seededAt;
+      };
+      return {
+        id,
+        participants,
+        createdAt: seededAt,
+        readAt: Object.fromEntries(participants.map((handle) => [handle, lastRead(handle)])),
+        typingUntil: {},
+      };
+    }),
+    messages: SEED_MESSAGES.map(([conversationId, senderHandle, content, minutes], index) => ({
+      id: `msg${index + 1}`,
+      conversationId,
+      senderHandle,
+      content,
+      createdAt: new Date(now - minutes * MINUTE_MS).toISOString(),
+    })),
+    accounts: users.map(({ handle }) => ({
+      handle,
+      email: `${handle}@societal.dev`,
+      salt: DEMO_SALT,
+      passwordHash: DEMO_PASSWORD_HASH,
+    })),
+    sessions: [],
+  };
+}
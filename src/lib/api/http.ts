@@ -0,0 +1,116 @@
+import { ApiError, type Api, type PageParams } from "./types";
+
+// Query string for a page request, plus any `extra` parameters that are set.
+const pageQuery = ({ cursor, limit }: PageParams = {}, extra: Record<string, string | undefined> = {}) => {
+  const search = new URLSearchParams();
+  for (const [key, value] of Object.entries(extra)) {
+    if (value) search.set(key, value);
+  }
+  if (cursor) search.set("cursor", cursor);
+  if (limit) search.set("limit", String(limit));
+  const query = search.toString();
+  return query ? `?${query}` : "";
+};
+
+// Fetch client for the REST API behind the `/api` proxy in vite.config.ts.
+export function createHttpApi(baseUrl = "/api"): Api {
+  const request = async <T>(method: string, path: string, body?: unknown): Promise<T> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method,
+      credentials: "include",
+      headers: body === undefined ? undefined : { "Content-Type": "application/json" },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+
+    if (!response.ok) {
+      const payload = await response.json().catch(() => null);
+      throw new ApiError(response.status, payload?.error ?? response.statusText);
+    }
+    if (response.status === 204) return undefined as T;
+    return response.json();
+  };
+
+  const segment = (value: string) => encodeURIComponent(value);
+
+  return {
+    getSession: () => request("GET", "/session"),
+    signUp: (input) => request("POST", "/accounts", input),
+    logIn: (input) => request("POST", "/session", input),
+    logOut: () => request("DELETE", "/session"),
+
+    getCurrentUser: () => request("GET", "/me"),
+    updateProfile: (input) => request("PATCH", "/me", input),
+    getUsers: () => request("GET", "/users"),
+    getUser: (h) => request("GET", `/users/${segment(h)}`),
+    getFollowers: (h, params) => request("GET", `/users/${segment(h)}/followers${pageQuery(params)}`),
+    getFollowing: (h, params) => request("GET", `/users/${segment(h)}/following${pageQuery(params)}`),
+    followUser: (h) => request("PUT", `/users/${segment(h)}/follow`),
+    unfollowUser: (h) => request("DELETE", `/users/${segment(h)}/follow`),
+    getFollowSuggestions: (params) => request("GET", `/suggestions${pageQuery(params)}`),
+    dismissFollowSuggestion: (h) => request("DELETE", `/suggestions/${segment(h)}`),
+
+    getFeed: (kind, params) => request("GET", `/feed/${segment(kind)}${pageQuery(params)}`),
+    countNewPosts: (kind, since) =>
+      request("GET", `/feed/${segment(kind)}/new?since=${encodeURIComponent(since)}`),
+    getPost: (id) => request("GET", `/posts/${segment(id)}`),
+    getThread: (id) => request("GET", `/posts/${segment(id)}/thread`),
+    getReplies: (id, { offset = 0, limit } = {}) =>
+      request("GET", `/posts/${segment(id)}/replies?offset=${offset}${limit ? `&limit=${limit}` : ""}`),
+    getUserPosts: (h, tab, params) => request("GET", `/users/${segment(h)}/posts${pageQuery(params, { tab })}`),
+    createPost: (input) => request("POST", "/posts", input),
+    deletePost: (id) => request("DELETE", `/posts/${segment(id)}`),
+    likePost: (id) => request("PUT", `/posts/${segment(id)}/like`),
+    unlikePost: (id) => request("DELETE", `/posts/${segment(id)}/like`),
+    repost: (id) => request("PUT", `/posts/${segment(id)}/repost`),
+    undoRepost: (id) => request("DELETE", `/posts/${segment(id)}/repost`),
+
+    getBookmarks: (folderId) =>
+      request("GET", `/bookmarks${folderId ? `?folder=${encodeURIComponent(folderId)}` : ""}`),
+    addBookmark: (id) => request("PUT", `/bookmarks/${segment(id)}`),
+    removeBookmark: (id) => request("DELETE", `/bookmarks/${segment(id)}`),
+    moveBookmark: (id, folderId) => request("PUT", `/bookmarks/${segment(id)}/folder`, { folderId }),
+    getBookmarkFolders: () => request("GET", "/bookmark-folders"),
+    getBookmarkFolder: (id) => request("GET", `/bookmark-folders/${segment(id)}`),
+    createBookmarkFolder: (name) => request("POST", "/bookmark-folders", { name }),
+    renameBookmarkFolder: (id, name) => request("PATCH", `/bookmark-folders/${segment(id)}`, { name }),
+    deleteBookmarkFolder: (id) => request("DELETE", `/bookmark-folders/${segment(id)}`),
+
+    getNotifications: (filter) => request("GET", `/notifications${pageQuery({}, { filter })}`),
+    getUnreadNotificationCount: () => request("GET", "/notifications/unread"),
+    markNotificationRead: (id) => request("PUT", `/notifications/${segment(id)}/read`),
+    markAllNotificationsRead: () => request("PUT", "/notifications/read"),
+    getNotificationPreferences: () => request("GET", "/settings/notifications"),
+    updateNotificationPreferences: (preferences) => request("PUT", "/settings/notifications", preferences),
+    // EventSource reconnects on its own; a drop is reported so the caller can
+    // poll until it does.
+    subscribeToNotifications: ({ onNotification, onStatus }) => {
+      const source = new EventSource(`${baseUrl}/notifications/stream`, { withCredentials: true });
+      source.addEventListener("notification", (event) => onNotification(JSON.parse(event.data)));
+      source.onopen = () => onStatus?.(true);
+      source.onerror = () => onStatus?.(false);
+      return () => source.close();
+    },
+
+    search: (query, limit) => request("GET", `/search${pageQuery({ limit }, { q: query })}`),
+    searchUsers: (query, params) => request("GET", `/search/users${pageQuery(params, { q: query })}`),
+    searchPosts: (query, { sort, ...params } = {}) =>
+      request("GET", `/search/posts${pageQuery(params, { q: query, sort })}`),
+    searchHashtags: (query, params) => request("GET", `/search/hashtags${pageQuery(params, { q: query })}`),
+    getHashtag: (tag) => request("GET", `/hashtags/${segment(tag)}`),
+    getHashtagPosts: (tag, params) => request("GET", `/hashtags/${segment(tag)}/posts${pageQuery(params)}`),
+    getTrends: (limit) => request("GET", `/trends${pageQuery({ limit })}`),
+
+    getStoryReels: () => request("GET", "/stories"),
+    createStory: (input) => request("POST", "/stories", input),
+    markStorySeen: (id) => request("PUT", `/stories/${segment(id)}/seen`),
+
+    getConversations: () => request("GET", "/conversations"),
+    getConversation: (id) => request("GET", `/conversations/${segment(id)}`),
+    startConversation: (handle) => request("POST", "/conversations", { handle }),
+    getMessages: (id, params) => request("GET", `/conversations/${segment(id)}/messages${pageQuery(params)}`),
+    sendMessage: (id, content) => request("POST", `/conversations/${segment(id)}/messages`, { content }),
+    markConversationRead: (id) => request("PUT", `/conversations/${segment(id)}/read`),
+    setTyping: (id, typing) => request(typing ? "PUT" : "DELETE", `/conversations/${segment(id)}/typing`),
+    getUnreadMessageCount: () => request("GET", "/conversations/unread"),
+  };
+}
@@ -0,0 +1,25 @@
+import { createHttpApi } from "./http";
+import { createMockApi } from "./mock";
+import type { Api } from "./types";
+
+export * from "./types";
+export { queryKeys } from "./query-keys";
+export {
+  MAX_ALT_TEXT_LENGTH,
+  MAX_BIO_LENGTH,
+  MAX_FOLDER_NAME_LENGTH,
+  MAX_LOCATION_LENGTH,
+  MAX_MESSAGE_LENGTH,
+  MAX_NAME_LENGTH,
+  MAX_POST_LENGTH,
+  MAX_POST_MEDIA,
+  MAX_STORY_TEXT_LENGTH,
+  UPLOAD_IMAGE_TYPES,
+} from "./service";
+export { EMAIL_PATTERN, HANDLE_PATTERN, MIN_PASSWORD_LENGTH } from "./session";
+export { DEMO_PASSWORD } from "./db";
+
+// `VITE_API_MODE=http` talks to the `/api` proxy; anything else (the default)
+// uses the in-memory fixtures backend.
+export const api: Api =
+  import.meta.env.VITE_API_MODE === "http" ? createHttpApi() : createMockApi();
@@ -0,0 +1,51 @@
+import { createSeedDatabase } from "./db";
+import { createSessionApi, type TokenStore } from "./session";
+import type { Api } from "./types";
+
+interface MockApiOptions {
+  /** Artificial latency per call, so loading states are exercised. */
+  latency?: number;
+}
+
+// Where the mock remembers who is signed in across reloads.
+const SESSION_STORAGE_KEY = "societal.session";
+
+const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// In-browser backend seeded from the fixtures in `src/lib/data.ts`. State
+// lives for the lifetime of the page; results are cloned so callers can never
+// mutate the underlying records by accident.
+export function createMockApi({ latency = 250 }: MockApiOptions = {}): Api {
+  const db = createSeedDatabase();
+
+  // The database resets on reload but the session shouldn't, so the signed-in
+  // handle is kept in localStorage and its session re-created at startup.
+  let token: string | null = null;
+  const saved = localStorage.getItem(SESSION_STORAGE_KEY);
+  if (saved && db.accounts.some((a) => a.handle === saved)) {
+    token = crypto.randomUUID();
+    db.sessions.push({ token, handle: saved, createdAt: new Date().toISOString() });
+  }
+
+  const tokens: TokenStore = {
+    get: () => token,
+    set: (next) => {
+      token = next;
+      const handle = db.sessions.find((s) => s.token === next)?.handle;
+      if (handle) localStorage.setItem(SESSION_STORAGE_KEY, handle);
+      else localStorage.removeItem(SESSION_STORAGE_KEY);
+    },
+  };
+  const service = createSessionApi(db, tokens);
+
+  return Object.fromEntries(
+    Object.entries(service).map(([name, method]) => [
+      name,
+      async (...args: unknown[]) => {
+        await delay(latency);
+        const result = await method(...args);
+        return result === undefined ? result : structuredClone(result);
+      },
+    ])
+  ) as unknown as Api;
+}
@@ -0,0 +1,61 @@
+import type { FeedKind, NotificationFilter, PostSearchSort, ProfileTab } from "./types";
+
+// Central query-key factory. Keys are hierarchical so a mutation can
+// invalidate e.g. every posts query with `queryKeys.posts.all`.
+export const queryKeys = {
+  currentUser: ["current-user"] as const,
+  users: {
+    all: ["users"] as const,
+    detail: (handle: string) => ["users", handle] as const,
+    followers: (handle: string) => ["users", handle, "followers"] as const,
+    following: (handle: string) => ["users", handle, "following"] as const,
+  },
+  suggestions: {
+    all: ["suggestions"] as const,
+    list: (limit?: number) => ["suggestions", limit ?? "all"] as const,
+  },
+  posts: {
+    all: ["posts"] as const,
+    feeds: ["posts", "feed"] as const,
+    feed: (kind: FeedKind) => ["posts", "feed", kind] as const,
+    newCount: (kind: FeedKind, since: string) => ["posts", "new", kind, since] as const,
+    byUser: (handle: string, tab: ProfileTab) => ["posts", "user", handle, tab] as const,
+    thread: (id: string) => ["posts", "thread", id] as const,
+    hashtag: (tag: string) => ["posts", "hashtag", tag] as const,
+  },
+  bookmarks: {
+    all: ["bookmarks"] as const,
+    list: (folderId?: string) => ["bookmarks", "list", folderId ?? "all"] as const,
+    folders: ["bookmarks", "folders"] as const,
+    folder: (id: string) => ["bookmarks", "folders", id] as const,
+  },
+  hashtags: {
+    detail: (tag: string) => ["hashtags", tag] as const,
+  },
+  search: {
+    all: ["search"] as const,
+    suggestions: (query: string) => ["search", "suggestions", query] as const,
+    users: (query: string) => ["search", "users", query] as const,
+    posts: (query: string, sort: PostSearchSort) => ["search", "posts", query, sort] as const,
+    hashtags: (query: string) => ["search", "hashtags", query] as const,
+    hashtagSuggestions: (query: string, limit: number) => ["search", "hashtags", "suggestions", query, limit] as const,
+  },
+  trends: ["trends"] as const,
+  notifications: {
+    all: ["notifications"] as const,
+    lists: ["notifications", "list"] as const,
+    list: (filter: NotificationFilter) => ["notifications", "list", filter] as const,
+    unread: ["notifications", "unread"] as const,
+  },
+  stories: ["stories"] as const,
+  settings: {
+    notifications: ["settings", "notifications"] as const,
+  },
+  messages: {
+    all: ["messages"] as const,
+    conversations: ["messages", "conversations"] as const,
+    conversation: (id: string) => ["messages", "conversations", id] as const,
+    thread: (id: string) => ["messages", "thread", id] as const,
+    unread: ["messages", "unread"] as const,
+  },
+};
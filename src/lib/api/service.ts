@@ -0,0 +1,1137 @@
+import {
+  NOTIFICATION_TYPES,
+  STORY_BACKGROUNDS,
+  type BookmarkFolder,
+  type Conversation,
+  type FollowSuggestion,
+  type Hashtag,
+  type Message,
+  type Notification,
+  type NotificationPreferences,
+  type Post,
+  type PostMedia,
+  type Story,
+  type StoryReel,
+  type User,
+  type UserProfile,
+} from "../data";
+import { DEFAULT_NOTIFICATION_PREFERENCES, matchesNotificationFilter, quietHoursEnd } from "../notifications";
+import { extractHashtags, extractMentions } from "../post-text";
+import { normalizeWebsite } from "../profile";
+import { authorAffinity, defaultRanking, rankItems, type RankingFunction } from "../ranking";
+import { defaultSuggestionScore } from "../recommendations";
+import { computeTrends } from "../trending";
+import type {
+  BookmarkFolderRecord,
+  ConversationRecord,
+  Database,
+  MessageRecord,
+  NotificationRecord,
+  PostInteraction,
+  PostRecord,
+  StoryRecord,
+} from "./db";
+import {
+  ApiError,
+  type CreatePostInput,
+  type CreateStoryInput,
+  type FeedKind,
+  type Page,
+  type PageParams,
+  type PostSearchParams,
+  type ProfileTab,
+  type ReplyPage,
+  type UpdateProfileInput,
+  type ViewerApi,
+} from "./types";
+
+export const MAX_POST_LENGTH = 280;
+export const MAX_POST_MEDIA = 4;
+export const MAX_ALT_TEXT_LENGTH = 1000;
+
+// How much of a reply tree is expanded per request: direct replies per
+// level, and how many levels deep.
+export const REPLY_PAGE_SIZE = 3;
+const REPLY_DEPTH = 3;
+
+export const DEFAULT_PAGE_SIZE = 20;
+export const MAX_PAGE_SIZE = 100;
+
+// Page sizes are whole numbers from 1 to MAX_PAGE_SIZE.
+const pageSize = (limit = DEFAULT_PAGE_SIZE) => {
+  if (!Number.isInteger(limit) || limit < 1) throw new ApiError(400, "limit must be a positive whole number");
+  return Math.min(limit, MAX_PAGE_SIZE);
+};
+
+const byNewest = (a: { createdAt: string }, b: { createdAt: string }) =>
+  Date.parse(b.createdAt) - Date.parse(a.createdAt);
+
+const byOldest = (a: { createdAt: string }, b: { createdAt: string }) => byNewest(b, a);
+
+// Offset-based cursors: fine for the small, append-mostly lists served here.
+const paginate = <T>(items: T[], { cursor, limit }: PageParams = {}): Page<T> => {
+  const offset = cursor ? Number(cursor) : 0;
+  if (!Number.isInteger(offset) || offset < 0) throw new ApiError(400, "Invalid cursor");
+  const end = offset + pageSize(limit);
+  return {
+    items: items.slice(offset, end),
+    nextCursor: end < items.length ? String(end) : null,
+  };
+};
+
+// Feed cursors pin the snapshot time alongside the offset: "<asOf ms>:<offset>".
+const parseFeedCursor = (cursor: string) => {
+  const [asOf, offset] = cursor.split(":").map(Number);
+  if (!Number.isInteger(asOf) || !Number.isInteger(offset) || offset < 0) {
+    throw new ApiError(400, "Invalid cursor");
+  }
+  return { asOf, offset };
+};
+
+// Checks a full preferences object from the client, returning a clean copy.
+const validateNotificationPreferences = (input: NotificationPreferences): NotificationPreferences => {
+  const { types, from, quietHours, emailDigest } = input;
+  if (NOTIFICATION_TYPES.some((type) => typeof types?.[type] !== "boolean")) {
+    throw new ApiError(400, "Every notification type must be switched on or off");
+  }
+  if (from !== "everyone" && from !== "following") throw new ApiError(400, `Unknown audience ${from}`);
+  if (emailDigest !== "off" && emailDigest !== "daily" && emailDigest !== "weekly") {
+    throw new ApiError(400, `Unknown digest frequency ${emailDigest}`);
+  }
+
+  const { enabled, startHour, endHour, timeZone } = quietHours ?? {};
+  const isHour = (hour: unknown) => Number.isInteger(hour) && (hour as number) >= 0 && (hour as number) < 24;
+  if (!isHour(startHour) || !isHour(endHour)) throw new ApiError(400, "Quiet hours must be whole hours from 0 to 23");
+  try {
+    // An undefined zone would quietly mean the server's own.
+    if (typeof timeZone !== "string") throw new RangeError();
+    new Intl.DateTimeFormat("en-US", { timeZone });
+  } catch {
+    throw new ApiError(400, `Unknown time zone ${timeZone}`);
+  }
+
+  return {
+    types: Object.fromEntries(NOTIFICATION_TYPES.map((type) => [type, types[type]])) as NotificationPreferences["types"],
+    from,
+    quietHours: { enabled: !!enabled, startHour, endHour, timeZone },
+    emailDigest,
+  };
+};
+
+const newId = (prefix: string) =>
+  `${prefix}-${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const MAX_MESSAGE_LENGTH = 1000;
+
+export const MAX_FOLDER_NAME_LENGTH = 25;
+
+export const MAX_NAME_LENGTH = 50;
+export const MAX_BIO_LENGTH = 160;
+export const MAX_LOCATION_LENGTH = 30;
+
+// Profile, post and story images are either hosted elsewhere or uploaded
+// inline as data URLs in one of these formats. File pickers offer only these,
+// so nothing is turned away after it's already on screen.
+export const UPLOAD_IMAGE_TYPES = ["image/png", "image/jpeg", "image/webp"];
+
+const IMAGE_URL_PATTERN = new RegExp(`^(https?://|data:(${UPLOAD_IMAGE_TYPES.join("|")});base64,)`);
+
+// Checks a post's attachments, returning them with alt text trimmed.
+const validateMedia = (media: PostMedia[]): PostMedia[] => {
+  if (media.length > MAX_POST_MEDIA) throw new ApiError(400, `Posts can have at most ${MAX_POST_MEDIA} images`);
+  return media.map(({ url, alt = "" }) => {
+    if (!IMAGE_URL_PATTERN.test(url)) throw new ApiError(400, "Images must be PNG, JPEG or WebP");
+    const trimmed = alt.trim();
+    if (trimmed.length > MAX_ALT_TEXT_LENGTH) {
+      throw new ApiError(400, `Alt text must be at most ${MAX_ALT_TEXT_LENGTH} characters`);
+    }
+    return { url, alt: trimmed };
+  });
+};
+
+export const MAX_STORY_TEXT_LENGTH = 200;
+
+// Stories disappear this long after they're posted.
+const STORY_LIFETIME_MS = 24 * HOUR_MS;
+
+const validateStory = ({ imageUrl, text = "", background }: CreateStoryInput): CreateStoryInput => {
+  const trimmed = text.trim();
+  if (!imageUrl && !trimmed) throw new ApiError(400, "Story cannot be empty");
+  if (trimmed.length > MAX_STORY_TEXT_LENGTH) {
+    throw new ApiError(400, `Story text must be at most ${MAX_STORY_TEXT_LENGTH} characters`);
+  }
+  if (imageUrl && !IMAGE_URL_PATTERN.test(imageUrl)) throw new ApiError(400, "Stories must be PNG, JPEG or WebP");
+  if (background && !STORY_BACKGROUNDS.includes(background)) throw new ApiError(400, `Unknown background ${background}`);
+  return {
+    imageUrl: imageUrl || undefined,
+    text: trimmed || undefined,
+    // Text-only stories always get a backdrop.
+    background: imageUrl ? undefined : (background ?? STORY_BACKGROUNDS[0]),
+  };
+};
+
+// Checks an edited profile, returning it trimmed and with the website normalized.
+const validateProfile = (input: UpdateProfileInput): UpdateProfileInput => {
+  const name = input.name.trim();
+  const bio = input.bio.trim();
+  const location = input.location.trim();
+  const website = normalizeWebsite(input.website);
+
+  if (!name) throw new ApiError(400, "Name is required");
+  if (name.length > MAX_NAME_LENGTH) throw new ApiError(400, `Name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (bio.length > MAX_BIO_LENGTH) throw new ApiError(400, `Bio must be at most ${MAX_BIO_LENGTH} characters`);
+  if (location.length > MAX_LOCATION_LENGTH) {
+    throw new ApiError(400, `Location must be at most ${MAX_LOCATION_LENGTH} characters`);
+  }
+  if (website === null) throw new ApiError(400, "Enter a valid website address");
+  for (const url of [input.avatarUrl, input.coverUrl]) {
+    if (url && !IMAGE_URL_PATTERN.test(url)) throw new ApiError(400, "Profile images must be PNG, JPEG or WebP");
+  }
+
+  return { name, bio, location, website, avatarUrl: input.avatarUrl, coverUrl: input.coverUrl };
+};
+
+// A typing signal lapses unless the client renews it within this window.
+const TYPING_TTL_MS = 5000;
+
+// Matches per kind in a typeahead search.
+export const SEARCH_SUGGESTION_LIMIT = 4;
+
+// Followed-by names shown on each follow suggestion.
+const SUGGESTION_MUTUALS_SHOWN = 2;
+
+// Trends returned when the client doesn't ask for a number.
+const TRENDS_LIMIT = 5;
+
+// How well `text` matches `needle`: 0 for an exact match, 1 for a prefix,
+// 2 for the start of a later word, 3 anywhere else; null for no match.
+const matchRank = (text: string, needle: string) => {
+  const haystack = text.toLowerCase();
+  if (haystack === needle) return 0;
+  if (haystack.startsWith(needle)) return 1;
+  if (haystack.split(/\W+/).some((word) => word.startsWith(needle))) return 2;
+  return haystack.includes(needle) ? 3 : null;
+};
+
+const engagement = (post: PostRecord) => post.likes + 2 * post.reposts + post.comments;
+
+export interface ServiceOptions {
+  /** Scores posts for the "For you" timeline. */
+  ranking?: RankingFunction;
+}
+
+// Implements `ViewerApi` directly against a `Database` on behalf of
+// `viewerHandle`. Both the browser mock and the local REST server delegate
+// here, so behaviour cannot drift between them.
+export function createService(
+  db: Database,
+  viewerHandle: string,
+  { ranking = defaultRanking }: ServiceOptions = {}
+): ViewerApi {
+  const findUser = (handle: string): UserProfile => {
+    const user = db.users.find((u) => u.handle === handle);
+    if (!user) throw new ApiError(404, `User @${handle} not found`);
+    return user;
+  };
+
+  // Suspended accounts still resolve where they're referenced (old follows,
+  // notifications), but can't be looked up or interacted with directly.
+  const findActiveUser = (handle: string): UserProfile => {
+    const user = findUser(handle);
+    if (user.suspended) throw new ApiError(410, `@${handle} is suspended`);
+    return user;
+  };
+
+  const isFollowing = (followerHandle: string, followeeHandle: string) =>
+    db.follows.some(
+      (f) => f.followerHandle === followerHandle && f.followeeHandle === followeeHandle
+    );
+
+  // Counts are always derived from the follow relation, never stored.
+  const toUser = (profile: UserProfile): User => ({
+    ...profile,
+    following: db.follows.filter((f) => f.followerHandle === profile.handle).length,
+    followers: db.follows.filter((f) => f.followeeHandle === profile.handle).length,
+    followedByMe: isFollowing(viewerHandle, profile.handle),
+    followsMe: isFollowing(profile.handle, viewerHandle),
+  });
+
+  const findPost = (id: string): PostRecord => {
+    const post = db.posts.find((p) => p.id === id);
+    if (!post) throw new ApiError(404, `Post ${id} not found`);
+    return post;
+  };
+
+  const hasInteraction = (list: PostInteraction[], postId: string) =>
+    list.some((i) => i.handle === viewerHandle && i.postId === postId);
+
+  const findBookmark = (postId: string) =>
+    db.bookmarks.find((b) => b.handle === viewerHandle && b.postId === postId);
+
+  const toPost = (record: PostRecord): Post => {
+    const { authorHandle, createdAt, ...post } = record;
+    const bookmark = findBookmark(record.id);
+    return {
+      ...post,
+      author: findUser(authorHandle),
+      timestamp: createdAt,
+      likedByMe: hasInteraction(db.likes, record.id),
+      repostedByMe: hasInteraction(db.reposts, record.id),
+      bookmarkedByMe: !!bookmark,
+      bookmarkFolderId: bookmark?.folderId,
+    };
+  };
+
+  const findFolder = (id: string): BookmarkFolderRecord => {
+    const folder = db.bookmarkFolders.find((f) => f.id === id);
+    // Like conversations, other people's folders are simply not there.
+    if (!folder || folder.handle !== viewerHandle) throw new ApiError(404, `Folder ${id} not found`);
+    return folder;
+  };
+
+  const toFolder = (folder: BookmarkFolderRecord): BookmarkFolder => ({
+    id: folder.id,
+    name: folder.name,
+    count: db.bookmarks.filter((b) => b.handle === viewerHandle && b.folderId === folder.id).length,
+    createdAt: folder.createdAt,
+  });
+
+  // Trims and checks a folder name, rejecting duplicates among the viewer's
+  // other folders (case-insensitively).
+  const folderName = (name: string, excludeId?: string) => {
+    const trimmed = name.trim();
+    if (!trimmed) throw new ApiError(400, "Folder name is required");
+    if (trimmed.length > MAX_FOLDER_NAME_LENGTH) {
+      throw new ApiError(400, `Folder name must be at most ${MAX_FOLDER_NAME_LENGTH} characters`);
+    }
+    const taken = db.bookmarkFolders.some(
+      (f) => f.handle === viewerHandle && f.id !== excludeId && f.name.toLowerCase() === trimmed.toLowerCase()
+    );
+    if (taken) throw new ApiError(409, `You already have a folder named "${trimmed}"`);
+    return trimmed;
+  };
+
+  const toNotification = (record: NotificationRecord): Notification => ({
+    id: record.id,
+    type: record.type,
+    user: findUser(record.actorHandle),
+    post: record.postId ? toPost(findPost(record.postId)) : undefined,
+    timestamp: record.createdAt,
+    read: !!record.readAt,
+  });
+
+  // The viewer's notifications, minus any still held back by quiet hours.
+  const inbox = () => {
+    const now = Date.now();
+    return db.notifications.filter(
+      (n) => n.recipientHandle === viewerHandle && (!n.deliverAt || Date.parse(n.deliverAt) <= now)
+    );
+  };
+
+  const findNotification = (id: string) => {
+    const notification = inbox().find((n) => n.id === id);
+    if (!notification) throw new ApiError(404, `Notification ${id} not found`);
+    return notification;
+  };
+
+  const unreadNotifications = () => inbox().filter((n) => !n.readAt);
+
+  const preferencesOf = (handle: string): NotificationPreferences => {
+    const stored = db.notificationPreferences.find((p) => p.handle === handle);
+    if (!stored) return DEFAULT_NOTIFICATION_PREFERENCES;
+    const { types, from, quietHours, emailDigest } = stored;
+    // Kinds added since the preferences were saved start out on.
+    return { types: { ...DEFAULT_NOTIFICATION_PREFERENCES.types, ...types }, from, quietHours, emailDigest };
+  };
+
+  // The recipient's preferences decide whether the notification is created
+  // at all, and whether it waits for their quiet hours to end.
+  const notify = (
+    type: Notification["type"],
+    recipientHandle: string,
+    postId?: string
+  ) => {
+    if (recipientHandle === viewerHandle) return;
+    const preferences = preferencesOf(recipientHandle);
+    if (!preferences.types[type]) return;
+    if (preferences.from === "following" && !isFollowing(recipientHandle, viewerHandle)) return;
+
+    const now = new Date();
+    db.notifications.push({
+      id: newId("notif"),
+      type,
+      recipientHandle,
+      actorHandle: viewerHandle,
+      postId,
+      createdAt: now.toISOString(),
+      deliverAt: quietHoursEnd(preferences.quietHours, now)?.toISOString(),
+    });
+  };
+
+  // What each profile tab lists, newest first. Likes are ordered by when the
+  // post was liked rather than when it was written.
+  const profilePosts = (handle: string, tab: ProfileTab): PostRecord[] => {
+    if (tab === "likes") {
+      return db.likes
+        .filter((l) => l.handle === handle)
+        .sort(byNewest)
+        .map((l) => findPost(l.postId));
+    }
+    const authored = db.posts.filter((p) => p.authorHandle === handle).sort(byNewest);
+    switch (tab) {
+      case "posts":
+        return authored.filter((p) => !p.parentId);
+      case "replies":
+        return authored.filter((p) => !!p.parentId);
+      case "media":
+        return authored.filter((p) => !!p.media?.length);
+    }
+  };
+
+  const storyExpiry = (story: StoryRecord) => Date.parse(story.createdAt) + STORY_LIFETIME_MS;
+
+  const liveStories = () => {
+    const now = Date.now();
+    return db.stories.filter((s) => storyExpiry(s) > now);
+  };
+
+  const findStory = (id: string) => {
+    const story = liveStories().find((s) => s.id === id);
+    if (!story) throw new ApiError(404, `Story ${id} not found`);
+    return story;
+  };
+
+  // The viewer's own stories never show as unseen to them.
+  const toStory = (record: StoryRecord): Story => ({
+    id: record.id,
+    imageUrl: record.imageUrl,
+    text: record.text,
+    background: record.background,
+    timestamp: record.createdAt,
+    expiresAt: new Date(storyExpiry(record)).toISOString(),
+    seen:
+      record.authorHandle === viewerHandle ||
+      db.storyViews.some((v) => v.handle === viewerHandle && v.storyId === record.id),
+  });
+
+  const removeInteraction = <T extends PostInteraction>(list: T[], postId: string) =>
+    list.filter((i) => !(i.handle === viewerHandle && i.postId === postId));
+
+  const addInteraction = (list: PostInteraction[], postId: string) =>
+    list.push({ handle: viewerHandle, postId, createdAt: new Date().toISOString() });
+
+  // Top-level posts that belong in `kind` as of `asOf`, newest first.
+  const feedCandidates = (kind: FeedKind, asOf: number) =>
+    db.posts
+      .filter((p) => !p.parentId && Date.parse(p.createdAt) <= asOf)
+      .filter(
+        (p) =>
+          kind === "for-you" ||
+          // The viewer's own posts belong in their timeline too.
+          p.authorHandle === viewerHandle ||
+          isFollowing(viewerHandle, p.authorHandle)
+      )
+      .sort(byNewest);
+
+  // The full ordered feed for a snapshot. Ages are measured from `asOf` rather
+  // than the current time so later pages rank consistently with earlier ones.
+  const feedPosts = (kind: FeedKind, asOf: number) => {
+    const candidates = feedCandidates(kind, asOf);
+    if (kind === "following") return candidates;
+
+    const interactions = new Map<string, number>();
+    for (const { handle, postId } of [...db.likes, ...db.reposts]) {
+      if (handle !== viewerHandle) continue;
+      const author = db.posts.find((p) => p.id === postId)?.authorHandle;
+      if (author) interactions.set(author, (interactions.get(author) ?? 0) + 1);
+    }
+
+    return rankItems(
+      candidates,
+      (p) => ({
+        ageHours: (asOf - Date.parse(p.createdAt)) / HOUR_MS,
+        likes: p.likes,
+        reposts: p.reposts,
+        comments: p.comments,
+        affinity: authorAffinity({
+          follows: isFollowing(viewerHandle, p.authorHandle),
+          interactions: interactions.get(p.authorHandle) ?? 0,
+        }),
+      }),
+      ranking
+    );
+  };
+
+  const findConversation = (id: string): ConversationRecord => {
+    const conversation = db.conversations.find((c) => c.id === id);
+    // Other people's conversations are indistinguishable from missing ones.
+    if (!conversation || !conversation.participants.includes(viewerHandle)) {
+      throw new ApiError(404, `Conversation ${id} not found`);
+    }
+    return conversation;
+  };
+
+  const otherParticipant = (conversation: ConversationRecord) =>
+    conversation.participants.find((h) => h !== viewerHandle) ?? viewerHandle;
+
+  const messagesIn = (conversationId: string) =>
+    db.messages.filter((m) => m.conversationId === conversationId).sort(byNewest);
+
+  const toMessage = (record: MessageRecord, conversation: ConversationRecord): Message => {
+    const recipient = conversation.participants.find((h) => h !== record.senderHandle);
+    const readAt = recipient ? conversation.readAt[recipient] : undefined;
+    return {
+      id: record.id,
+      conversationId: record.conversationId,
+      sender: findUser(record.senderHandle),
+      content: record.content,
+      timestamp: record.createdAt,
+      seen: !!readAt && Date.parse(readAt) >= Date.parse(record.createdAt),
+    };
+  };
+
+  const unreadIn = (conversation: ConversationRecord) => {
+    const readAt = Date.parse(conversation.readAt[viewerHandle] ?? conversation.createdAt);
+    return messagesIn(conversation.id).filter(
+      (m) => m.senderHandle !== viewerHandle && Date.parse(m.createdAt) > readAt
+    ).length;
+  };
+
+  const toConversation = (conversation: ConversationRecord): Conversation => {
+    const participant = otherParticipant(conversation);
+    const [last] = messagesIn(conversation.id);
+    const typingUntil = conversation.typingUntil[participant];
+    return {
+      id: conversation.id,
+      participant: findUser(participant),
+      lastMessage: last && toMessage(last, conversation),
+      unreadCount: unreadIn(conversation),
+      isTyping: !!typingUntil && Date.parse(typingUntil) > Date.now(),
+    };
+  };
+
+  // Users whose handle or name contains the query, best match first.
+  const matchingUsers = (query: string) => {
+    const needle = query.trim().replace(/^@/, "").toLowerCase();
+    if (!needle) return [];
+    return db.users
+      .filter((user) => !user.suspended)
+      .map((user) => {
+        const ranks = [matchRank(user.handle, needle), matchRank(user.name, needle)].filter((r) => r !== null);
+        return { user: toUser(user), rank: ranks.length ? Math.min(...ranks) : null };
+      })
+      .filter((match) => match.rank !== null)
+      .sort((a, b) => a.rank! - b.rank! || b.user.followers - a.user.followers)
+      .map((match) => match.user);
+  };
+
+  const normalizeTag = (tag: string) => {
+    const normalized = tag.replace(/^#/, "").toLowerCase();
+    if (!/^\w+$/.test(normalized)) throw new ApiError(400, `Invalid hashtag ${tag}`);
+    return normalized;
+  };
+
+  const taggedPosts = (tag: string) => db.posts.filter((p) => extractHashtags(p.content).includes(tag));
+
+  // Posts containing every word of the query, or tagged with it for "#tag".
+  const matchingPosts = (query: string, sort: PostSearchParams["sort"] = "top") => {
+    const needle = query.trim().toLowerCase();
+    if (!needle) return [];
+    const matches = needle.startsWith("#")
+      ? taggedPosts(needle.slice(1))
+      : db.posts.filter((p) => needle.split(/\s+/).every((term) => p.content.toLowerCase().includes(term)));
+    return matches.sort((a, b) => (sort === "top" ? engagement(b) - engagement(a) : 0) || byNewest(a, b));
+  };
+
+  const matchingHashtags = (query: string): Hashtag[] => {
+    const needle = query.trim().replace(/^#/, "").toLowerCase();
+    if (!needle) return [];
+    const counts = new Map<string, number>();
+    for (const post of db.posts) {
+      for (const tag of extractHashtags(post.content)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return Array.from(counts, ([tag, posts]) => ({ tag, posts, rank: matchRank(tag, needle) }))
+      .filter((match) => match.rank !== null)
+      .sort((a, b) => a.rank! - b.rank! || b.posts - a.posts || a.tag.localeCompare(b.tag))
+      .map(({ tag, posts }) => ({ tag, posts }));
+  };
+
+  // Posts `handle` has liked, reposted or replied to.
+  const engagedPostIds = (handle: string) =>
+    new Set([
+      ...[...db.likes, ...db.reposts].filter((i) => i.handle === handle).map((i) => i.postId),
+      ...db.posts.filter((p) => p.authorHandle === handle && p.parentId).map((p) => p.parentId!),
+    ]);
+
+  // Hashtags `handle` posts with or engages with, and how often.
+  const hashtagInterests = (handle: string, engaged: Set<string>) => {
+    const counts = new Map<string, number>();
+    for (const post of db.posts) {
+      if (post.authorHandle !== handle && !engaged.has(post.id)) continue;
+      for (const tag of extractHashtags(post.content)) counts.set(tag, (counts.get(tag) ?? 0) + 1);
+    }
+    return counts;
+  };
+
+  const followSuggestions = (): FollowSuggestion[] => {
+    const following = new Set(
+      db.follows.filter((f) => f.followerHandle === viewerHandle).map((f) => f.followeeHandle)
+    );
+    const dismissed = new Set(
+      db.dismissedSuggestions.filter((d) => d.handle === viewerHandle).map((d) => d.dismissedHandle)
+    );
+    const viewerEngaged = engagedPostIds(viewerHandle);
+    const viewerTags = hashtagInterests(viewerHandle, viewerEngaged);
+
+    return db.users
+      .filter(
+        (u) => u.handle !== viewerHandle && !u.suspended && !following.has(u.handle) && !dismissed.has(u.handle)
+      )
+      .map((profile) => {
+        const user = toUser(profile);
+        const mutuals = db.follows
+          .filter((f) => f.followeeHandle === profile.handle && following.has(f.followerHandle))
+          .map((f) => findUser(f.followerHandle));
+        const engaged = engagedPostIds(profile.handle);
+        const tags = hashtagInterests(profile.handle, engaged);
+        const uses = (tag: string) => tags.get(tag)! + viewerTags.get(tag)!;
+        const sharedHashtags = Array.from(tags.keys())
+          .filter((tag) => viewerTags.has(tag))
+          .sort((a, b) => uses(b) - uses(a));
+        const score = defaultSuggestionScore({
+          mutuals: mutuals.length,
+          sharedHashtags: sharedHashtags.length,
+          sharedEngagement: Array.from(engaged).filter((id) => viewerEngaged.has(id)).length,
+          followsViewer: !!user.followsMe,
+          followers: user.followers,
+        });
+        return {
+          suggestion: {
+            user,
+            mutuals: mutuals.slice(0, SUGGESTION_MUTUALS_SHOWN),
+            mutualCount: mutuals.length,
+            sharedHashtags,
+          },
+          score,
+        };
+      })
+      .sort((a, b) => b.score - a.score || a.suggestion.user.handle.localeCompare(b.suggestion.user.handle))
+      .map(({ suggestion }) => suggestion);
+  };
+
+  // Replies read top-down like a conversation, so they are ordered oldest first.
+  const replyPage = (parentId: string, offset: number, limit: number, depth: number): ReplyPage => {
+    const children = db.posts.filter((p) => p.parentId === parentId).sort(byOldest);
+    const slice = children.slice(offset, offset + limit);
+    return {
+      items: slice.map((child) => ({
+        post: toPost(child),
+        replies:
+          depth > 1
+            ? replyPage(child.id, 0, limit, depth - 1)
+            : { items: [], remaining: db.posts.filter((p) => p.parentId === child.id).length },
+      })),
+      remaining: Math.max(0, children.length - offset - slice.length),
+    };
+  };
+
+  return {
+    async getCurrentUser() {
+      return toUser(findUser(viewerHandle));
+    },
+
+    async updateProfile(input) {
+      const profile = findUser(viewerHandle);
+      Object.assign(profile, validateProfile(input));
+      return toUser(profile);
+    },
+
+    async getUsers() {
+      return db.users.filter((u) => !u.suspended).map(toUser);
+    },
+
+    async getUser(handle) {
+      return toUser(findActiveUser(handle));
+    },
+
+    async getFollowers(handle, params) {
+      findActiveUser(handle);
+      const followers = db.follows
+        .filter((f) => f.followeeHandle === handle)
+        .sort(byNewest)
+        .map((f) => findUser(f.followerHandle))
+        .filter((u) => !u.suspended)
+        .map(toUser);
+      return paginate(followers, params);
+    },
+
+    async getFollowing(handle, params) {
+      findActiveUser(handle);
+      const following = db.follows
+        .filter((f) => f.followerHandle === handle)
+        .sort(byNewest)
+        .map((f) => findUser(f.followeeHandle))
+        .filter((u) => !u.suspended)
+        .map(toUser);
+      return paginate(following, params);
+    },
+
+    async followUser(handle) {
+      findActiveUser(handle);
+      if (handle === viewerHandle) throw new ApiError(400, "You can't follow yourself");
+      if (!isFollowing(viewerHandle, handle)) {
+        db.follows.push({
+          followerHandle: viewerHandle,
+          followeeHandle: handle,
+          createdAt: new Date().toISOString(),
+        });
+        notify("follow", handle);
+      }
+      return toUser(findUser(handle));
+    },
+
+    async unfollowUser(handle) {
+      findUser(handle);
+      db.follows = db.follows.filter(
+        (f) => !(f.followerHandle === viewerHandle && f.followeeHandle === handle)
+      );
+      return toUser(findUser(handle));
+    },
+
+    async getFollowSuggestions(params) {
+      return paginate(followSuggestions(), params);
+    },
+
+    async dismissFollowSuggestion(handle) {
+      findUser(handle);
+      const dismissed = db.dismissedSuggestions.some(
+        (d) => d.handle === viewerHandle && d.dismissedHandle === handle
+      );
+      if (!dismissed) {
+        db.dismissedSuggestions.push({
+          handle: viewerHandle,
+          dismissedHandle: handle,
+          createdAt: new Date().toISOString(),
+        });
+      }
+    },
+
+    async getFeed(kind, { cursor, limit } = {}) {
+      const { asOf, offset } = cursor ? parseFeedCursor(cursor) : { asOf: Date.now(), offset: 0 };
+      const posts = feedPosts(kind, asOf);
+      const end = offset + pageSize(limit);
+      return {
+        items: posts.slice(offset, end).map(toPost),
+        nextCursor: end < posts.length ? `${asOf}:${end}` : null,
+        asOf: new Date(asOf).toISOString(),
+      };
+    },
+
+    async countNewPosts(kind, since) {
+      const asOf = Date.parse(since);
+      if (Number.isNaN(asOf)) throw new ApiError(400, "Invalid timestamp");
+      return feedCandidates(kind, Date.now()).filter(
+        (p) => Date.parse(p.createdAt) > asOf && p.authorHandle !== viewerHandle
+      ).length;
+    },
+
+    async getPost(id) {
+      return toPost(findPost(id));
+    },
+
+    async getThread(id) {
+      const post = findPost(id);
+      const ancestors: PostRecord[] = [];
+      for (let parentId = post.parentId; parentId; ) {
+        const parent = db.posts.find((p) => p.id === parentId);
+        if (!parent) break;
+        ancestors.unshift(parent);
+        parentId = parent.parentId;
+      }
+      return {
+        post: toPost(post),
+        ancestors: ancestors.map(toPost),
+        replies: replyPage(id, 0, REPLY_PAGE_SIZE, REPLY_DEPTH),
+      };
+    },
+
+    async getReplies(id, { offset = 0, limit = REPLY_PAGE_SIZE } = {}) {
+      findPost(id);
+      if (!Number.isInteger(offset) || offset < 0) throw new ApiError(400, "offset must be a whole number");
+      return replyPage(id, offset, pageSize(limit), REPLY_DEPTH);
+    },
+
+    async getUserPosts(handle, tab = "posts", params) {
+      findActiveUser(handle);
+      const page = paginate(profilePosts(handle, tab), params);
+      return { ...page, items: page.items.map(toPost) };
+    },
+
+    async createPost({ content, media = [], replyTo }: CreatePostInput) {
+      const text = content.trim();
+      if (!text && media.length === 0) throw new ApiError(400, "Post cannot be empty");
+      if (text.length > MAX_POST_LENGTH) {
+        throw new ApiError(400, `Post exceeds ${MAX_POST_LENGTH} characters`);
+      }
+      const images = validateMedia(media);
+      const parent = replyTo ? findPost(replyTo) : undefined;
+
+      const record: PostRecord = {
+        id: newId("post"),
+        authorHandle: findUser(viewerHandle).handle,
+        content: text,
+        media: images.length ? images : undefined,
+        parentId: parent?.id,
+        rootId: parent ? parent.rootId ?? parent.id : undefined,
+        createdAt: new Date().toISOString(),
+        likes: 0,
+        reposts: 0,
+        comments: 0,
+      };
+      db.posts.unshift(record);
+
+      if (parent) {
+        parent.comments += 1;
+        notify("reply", parent.authorHandle, record.id);
+      }
+      // A reply already tells the parent's author, so mentioning them too
+      // doesn't notify twice.
+      for (const handle of extractMentions(text)) {
+        if (handle !== parent?.authorHandle && db.users.some((u) => u.handle === handle)) {
+          notify("mention", handle, record.id);
+        }
+      }
+      return toPost(record);
+    },
+
+    async deletePost(id) {
+      const post = findPost(id);
+      if (post.authorHandle !== viewerHandle) {
+        throw new ApiError(403, "You can only delete your own posts");
+      }
+      if (post.parentId) {
+        const parent = db.posts.find((p) => p.id === post.parentId);
+        if (parent) parent.comments = Math.max(0, parent.comments - 1);
+      }
+      // Replies go with the post, all the way down, so no thread is left
+      // pointing at a parent that no longer exists.
+      const removed = new Set([id]);
+      for (let level = [id]; level.length > 0; ) {
+        level = db.posts.filter((p) => p.parentId && level.includes(p.parentId)).map((p) => p.id);
+        level.forEach((replyId) => removed.add(replyId));
+      }
+      db.posts = db.posts.filter((p) => !removed.has(p.id));
+      db.notifications = db.notifications.filter((n) => !n.postId || !removed.has(n.postId));
+      db.likes = db.likes.filter((l) => !removed.has(l.postId));
+      db.reposts = db.reposts.filter((r) => !removed.has(r.postId));
+      db.bookmarks = db.bookmarks.filter((b) => !removed.has(b.postId));
+    },
+
+    async likePost(id) {
+      const post = findPost(id);
+      if (!hasInteraction(db.likes, id)) {
+        addInteraction(db.likes, id);
+        post.likes += 1;
+        notify("like", post.authorHandle, id);
+      }
+      return toPost(post);
+    },
+
+    async unlikePost(id) {
+      const post = findPost(id);
+      if (hasInteraction(db.likes, id)) {
+        db.likes = removeInteraction(db.likes, id);
+        post.likes = Math.max(0, post.likes - 1);
+      }
+      return toPost(post);
+    },
+
+    async repost(id) {
+      const post = findPost(id);
+      if (!hasInteraction(db.reposts, id)) {
+        addInteraction(db.reposts, id);
+        post.reposts += 1;
+        notify("repost", post.authorHandle, id);
+      }
+      return toPost(post);
+    },
+
+    async undoRepost(id) {
+      const post = findPost(id);
+      if (hasInteraction(db.reposts, id)) {
+        db.reposts = removeInteraction(db.reposts, id);
+        post.reposts = Math.max(0, post.reposts - 1);
+      }
+      return toPost(post);
+    },
+
+    async getBookmarks(folderId) {
+      if (folderId) findFolder(folderId);
+      return db.bookmarks
+        .filter((b) => b.handle === viewerHandle && (!folderId || b.folderId === folderId))
+        .sort(byNewest)
+        .map((b) => toPost(findPost(b.postId)));
+    },
+
+    async addBookmark(id) {
+      const post = findPost(id);
+      if (!hasInteraction(db.bookmarks, id)) addInteraction(db.bookmarks, id);
+      return toPost(post);
+    },
+
+    async removeBookmark(id) {
+      const post = findPost(id);
+      db.bookmarks = removeInteraction(db.bookmarks, id);
+      return toPost(post);
+    },
+
+    async moveBookmark(id, folderId) {
+      const post = findPost(id);
+      const bookmark = findBookmark(id);
+      if (!bookmark) throw new ApiError(404, `Post ${id} is not bookmarked`);
+      bookmark.folderId = folderId ? findFolder(folderId).id : undefined;
+      return toPost(post);
+    },
+
+    async getBookmarkFolders() {
+      return db.bookmarkFolders
+        .filter((f) => f.handle === viewerHandle)
+        .sort(byOldest)
+        .map(toFolder);
+    },
+
+    async getBookmarkFolder(id) {
+      return toFolder(findFolder(id));
+    },
+
+    async createBookmarkFolder(name) {
+      const folder: BookmarkFolderRecord = {
+        id: newId("folder"),
+        handle: viewerHandle,
+        name: folderName(name),
+        createdAt: new Date().toISOString(),
+      };
+      db.bookmarkFolders.push(folder);
+      return toFolder(folder);
+    },
+
+    async renameBookmarkFolder(id, name) {
+      const folder = findFolder(id);
+      folder.name = folderName(name, id);
+      return toFolder(folder);
+    },
+
+    async deleteBookmarkFolder(id) {
+      findFolder(id);
+      db.bookmarkFolders = db.bookmarkFolders.filter((f) => f.id !== id);
+      for (const bookmark of db.bookmarks) {
+        if (bookmark.folderId === id) bookmark.folderId = undefined;
+      }
+    },
+
+    async getNotifications(filter = "all") {
+      return inbox()
+        .sort(byNewest)
+        .map(toNotification)
+        .filter((n) => matchesNotificationFilter(n, filter));
+    },
+
+    async getUnreadNotificationCount() {
+      return unreadNotifications().length;
+    },
+
+    async markNotificationRead(id) {
+      const notification = findNotification(id);
+      if (!notification.readAt) notification.readAt = new Date().toISOString();
+      return toNotification(notification);
+    },
+
+    async markAllNotificationsRead() {
+      const now = new Date().toISOString();
+      for (const notification of unreadNotifications()) notification.readAt = now;
+    },
+
+    async getNotificationPreferences() {
+      return preferencesOf(viewerHandle);
+    },
+
+    async updateNotificationPreferences(input) {
+      const preferences = validateNotificationPreferences(input);
+      db.notificationPreferences = db.notificationPreferences.filter((p) => p.handle !== viewerHandle);
+      db.notificationPreferences.push({ handle: viewerHandle, ...preferences });
+      return preferences;
+    },
+
+    async search(query, requested = SEARCH_SUGGESTION_LIMIT) {
+      const limit = pageSize(requested);
+      return {
+        users: matchingUsers(query).slice(0, limit),
+        posts: matchingPosts(query).slice(0, limit).map(toPost),
+        hashtags: matchingHashtags(query).slice(0, limit),
+      };
+    },
+
+    async searchUsers(query, params) {
+      return paginate(matchingUsers(query), params);
+    },
+
+    async searchPosts(query, { sort, ...params } = {}) {
+      const page = paginate(matchingPosts(query, sort), params);
+      return { ...page, items: page.items.map(toPost) };
+    },
+
+    async searchHashtags(query, params) {
+      return paginate(matchingHashtags(query), params);
+    },
+
+    async getHashtag(tag) {
+      const normalized = normalizeTag(tag);
+      return { tag: normalized, posts: taggedPosts(normalized).length };
+    },
+
+    async getHashtagPosts(tag, params) {
+      const page = paginate(taggedPosts(normalizeTag(tag)).sort(byNewest), params);
+      return { ...page, items: page.items.map(toPost) };
+    },
+
+    async getTrends(limit = TRENDS_LIMIT) {
+      const items = db.posts.map((post) => ({ text: post.content, createdAt: Date.parse(post.createdAt) }));
+      return computeTrends(items, { now: Date.now(), limit: pageSize(limit) }).map(({ kind, term, posts, windowHours }) => ({
+        kind,
+        term,
+        posts,
+        windowHours,
+      }));
+    },
+
+    async getStoryReels() {
+      const live = liveStories().sort(byOldest);
+      const authors = new Set(live.map((s) => s.authorHandle));
+      const reels: StoryReel[] = [...authors]
+        .filter((handle) => handle === viewerHandle || isFollowing(viewerHandle, handle))
+        .map(findUser)
+        .filter((author) => !author.suspended)
+        .map((author) => {
+          const stories = live.filter((s) => s.authorHandle === author.handle).map(toStory);
+          return { author, stories, seen: stories.every((s) => s.seen) };
+        });
+
+      const latest = (reel: StoryReel) => Date.parse(reel.stories[reel.stories.length - 1].timestamp);
+      const isOwn = (reel: StoryReel) => reel.author.handle === viewerHandle;
+      return reels.sort(
+        (a, b) =>
+          Number(isOwn(b)) - Number(isOwn(a)) || Number(a.seen) - Number(b.seen) || latest(b) - latest(a)
+      );
+    },
+
+    async createStory(input) {
+      const record: StoryRecord = {
+        id: newId("story"),
+        authorHandle: viewerHandle,
+        ...validateStory(input),
+        createdAt: new Date().toISOString(),
+      };
+      db.stories.push(record);
+      return toStory(record);
+    },
+
+    async markStorySeen(id) {
+      const story = findStory(id);
+      if (!db.storyViews.some((v) => v.handle === viewerHandle && v.storyId === story.id)) {
+        db.storyViews.push({ handle: viewerHandle, storyId: story.id, createdAt: new Date().toISOString() });
+      }
+    },
+
+    async getConversations() {
+      const latest = (c: ConversationRecord) => messagesIn(c.id)[0]?.createdAt ?? c.createdAt;
+      return db.conversations
+        .filter((c) => c.participants.includes(viewerHandle))
+        .sort((a, b) => Date.parse(latest(b)) - Date.parse(latest(a)))
+        .map(toConversation);
+    },
+
+    async getConversation(id) {
+      return toConversation(findConversation(id));
+    },
+
+    async startConversation(handle) {
+      findActiveUser(handle);
+      if (handle === viewerHandle) throw new ApiError(400, "You can't message yourself");
+      const existing = db.conversations.find(
+        (c) => c.participants.includes(viewerHandle) && c.participants.includes(handle)
+      );
+      if (existing) return toConversation(existing);
+
+      const createdAt = new Date().toISOString();
+      const conversation: ConversationRecord = {
+        id: newId("dm"),
+        participants: [viewerHandle, handle],
+        createdAt,
+        readAt: { [viewerHandle]: createdAt, [handle]: createdAt },
+        typingUntil: {},
+      };
+      db.conversations.push(conversation);
+      return toConversation(conversation);
+    },
+
+    async getMessages(conversationId, { cursor, limit: requested } = {}) {
+      const conversation = findConversation(conversationId);
+      const limit = pageSize(requested);
+      const messages = messagesIn(conversationId);
+      // Cursors are message ids, so messages arriving between page loads
+      // don't shift older pages the way an offset would.
+      const start = cursor ? messages.findIndex((m) => m.id === cursor) + 1 : 0;
+      if (cursor && start === 0) throw new ApiError(400, "Invalid cursor");
+      const items = messages.slice(start, start + limit);
+      return {
+        items: items.map((m) => toMessage(m, conversation)),
+        nextCursor: start + limit < messages.length ? items[items.length - 1].id : null,
+      };
+    },
+
+    async sendMessage(conversationId, content) {
+      const conversation = findConversation(conversationId);
+      const text = content.trim();
+      if (!text) throw new ApiError(400, "Message cannot be empty");
+      if (text.length > MAX_MESSAGE_LENGTH) {
+        throw new ApiError(400, `Message exceeds ${MAX_MESSAGE_LENGTH} characters`);
+      }
+
+      const record: MessageRecord = {
+        id: newId("msg"),
+        conversationId,
+        senderHandle: viewerHandle,
+        content: text,
+        createdAt: new Date().toISOString(),
+      };
+      db.messages.push(record);
+      // Sending implies having read everything before it, and ends typing.
+      conversation.readAt[viewerHandle] = record.createdAt;
+      delete conversation.typingUntil[viewerHandle];
+      return toMessage(record, conversation);
+    },
+
+    async markConversationRead(conversationId) {
+      const conversation = findConversation(conversationId);
+      conversation.readAt[viewerHandle] = new Date().toISOString();
+      return toConversation(conversation);
+    },
+
+    async setTyping(conversationId, typing) {
+      const conversation = findConversation(conversationId);
+      if (typing) {
+        conversation.typingUntil[viewerHandle] = new Date(Date.now() + TYPING_TTL_MS).toISOString();
+      } else {
+        delete conversation.typingUntil[viewerHandle];
+      }
+    },
+
+    async getUnreadMessageCount() {
+      return db.conversations
+        .filter((c) => c.participants.includes(viewerHandle))
+        .reduce((total, c) => total + unreadIn(c), 0);
+    },
+  };
+}
@@ -0,0 +1,138 @@
+import type { AccountRecord, Database } from "./db";
+import { createService, MAX_NAME_LENGTH, type ServiceOptions } from "./service";
+import { ApiError, type Api, type LogInInput, type SignUpInput, type ViewerApi } from "./types";
+
+export const HANDLE_PATTERN = /^\w{3,15}$/;
+export const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+export const MIN_PASSWORD_LENGTH = 8;
+
+const PBKDF2_ITERATIONS = 100_000;
+
+// Where the current session token lives: a cookie on the server, browser
+// storage for the in-memory mock.
+export interface TokenStore {
+  get(): string | null;
+  set(token: string | null): void;
+}
+
+const toHex = (bytes: ArrayBuffer | Uint8Array) =>
+  Array.from(new Uint8Array(bytes), (b) => b.toString(16).padStart(2, "0")).join("");
+
+// Web Crypto is available both in browsers and in Node, so the mock and the
+// server hash passwords identically.
+async function hashPassword(password: string, salt: string) {
+  const encoder = new TextEncoder();
+  const key = await crypto.subtle.importKey("raw", encoder.encode(password), "PBKDF2", false, ["deriveBits"]);
+  const bits = await crypto.subtle.deriveBits(
+    { name: "PBKDF2", hash: "SHA-256", salt: encoder.encode(salt), iterations: PBKDF2_ITERATIONS },
+    key,
+    256
+  );
+  return toHex(bits);
+}
+
+const validateSignUp = ({ name, handle, email, password }: SignUpInput) => {
+  if (!name.trim()) throw new ApiError(400, "Name is required");
+  if (name.trim().length > MAX_NAME_LENGTH) throw new ApiError(400, `Name must be at most ${MAX_NAME_LENGTH} characters`);
+  if (!HANDLE_PATTERN.test(handle)) {
+    throw new ApiError(400, "Username must be 3–15 letters, numbers or underscores");
+  }
+  if (!EMAIL_PATTERN.test(email)) throw new ApiError(400, "Enter a valid email address");
+  if (password.length < MIN_PASSWORD_LENGTH) {
+    throw new ApiError(400, `Password must be at least ${MIN_PASSWORD_LENGTH} characters`);
+  }
+};
+
+// Wraps the per-viewer service with sign-up, login and logout. The viewer is
+// resolved from `tokens` on every call, so one instance serves whoever is
+// currently signed in.
+export function createSessionApi(db: Database, tokens: TokenStore, options?: ServiceOptions): Api {
+  const currentHandle = () => {
+    const token = tokens.get();
+    if (!token) return null;
+    const session = db.sessions.find((s) => s.token === token);
+    return session && db.users.some((u) => u.handle === session.handle) ? session.handle : null;
+  };
+
+  const viewer = () => {
+    const handle = currentHandle();
+    if (!handle) throw new ApiError(401, "You need to log in first");
+    return createService(db, handle, options);
+  };
+
+  const openSession = (handle: string) => {
+    const token = crypto.randomUUID();
+    db.sessions.push({ token, handle, createdAt: new Date().toISOString() });
+    tokens.set(token);
+    return createService(db, handle, options).getCurrentUser();
+  };
+
+  const findAccount = (identifier: string): AccountRecord | undefined => {
+    const needle = identifier.trim().replace(/^@/, "").toLowerCase();
+    return db.accounts.find((a) => a.email.toLowerCase() === needle || a.handle.toLowerCase() === needle);
+  };
+
+  // Every viewer method resolves the session first and then delegates.
+  const viewerApi = Object.fromEntries(
+    Object.keys(createService(db, "", options)).map((name) => [
+      name,
+      async (...args: unknown[]) => {
+        const service = viewer() as unknown as Record<string, (...args: unknown[]) => Promise<unknown>>;
+        return service[name](...args);
+      },
+    ])
+  ) as unknown as ViewerApi;
+
+  return {
+    ...viewerApi,
+
+    async getSession() {
+      const handle = currentHandle();
+      return handle ? createService(db, handle, options).getCurrentUser() : null;
+    },
+
+    async signUp(input) {
+      validateSignUp(input);
+      const handle = input.handle;
+      const email = input.email.trim().toLowerCase();
+      if (db.users.some((u) => u.handle.toLowerCase() === handle.toLowerCase())) {
+        throw new ApiError(409, `@${handle} is already taken`);
+      }
+      if (db.accounts.some((a) => a.email === email)) {
+        throw new ApiError(409, "An account with that email already exists");
+      }
+
+      const salt = toHex(crypto.getRandomValues(new Uint8Array(16)));
+      db.accounts.push({ handle, email, salt, passwordHash: await hashPassword(input.password, salt) });
+      db.users.push({
+        name: input.name.trim(),
+        handle,
+        avatarUrl: "",
+        coverUrl: "",
+        bio: "",
+        location: "",
+        website: "",
+        joined: new Date().toISOString(),
+      });
+      return openSession(handle);
+    },
+
+    async logIn({ identifier, password }: LogInInput) {
+      const account = findAccount(identifier);
+      // Same message either way so the form doesn't reveal which accounts exist.
+      if (!account || (await hashPassword(password, account.salt)) !== account.passwordHash) {
+        throw new ApiError(401, "Wrong username or password");
+      }
+      if (db.users.some((u) => u.handle === account.handle && u.suspended)) {
+        throw new ApiError(403, "This account has been suspended");
+      }
+      return openSession(account.handle);
+    },
+
+    async logOut() {
+      const token = tokens.get();
+      db.sessions = db.sessions.filter((s) => s.token !== token);
+      tokens.set(null);
+    },
+  };
+}
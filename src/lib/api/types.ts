@@ -0,0 +1,244 @@
+import type {
+  BookmarkFolder,
+  Conversation,
+  FollowSuggestion,
+  Hashtag,
+  Message,
+  Notification,
+  NotificationPreferences,
+  Post,
+  PostMedia,
+  Story,
+  StoryBackground,
+  StoryReel,
+  Trend,
+  User,
+  UserProfile,
+} from "../data";
+
+export type FeedKind = "for-you" | "following";
+
+// The parts of a profile its owner can edit.
+export type UpdateProfileInput = Pick<UserProfile, "name" | "bio" | "location" | "website" | "avatarUrl" | "coverUrl">;
+
+export interface CreatePostInput {
+  content: string;
+  /** Up to MAX_POST_MEDIA images. */
+  media?: PostMedia[];
+  /** Id of the post being replied to. */
+  replyTo?: string;
+}
+
+export interface CreateStoryInput {
+  imageUrl?: string;
+  text?: string;
+  background?: StoryBackground;
+}
+
+// A cursor-paginated slice of a list. `nextCursor` is opaque to clients and
+// `null` once the list is exhausted.
+export interface Page<T> {
+  items: T[];
+  nextCursor: string | null;
+}
+
+export interface PageParams {
+  cursor?: string | null;
+  limit?: number;
+}
+
+export type PostSearchSort = "top" | "latest";
+
+/** "posts" leaves out replies; "media" is every authored post with an image. */
+export type ProfileTab = "posts" | "replies" | "media" | "likes";
+
+/** "mentions" keeps mentions and replies; "verified" only events by verified accounts. */
+export type NotificationFilter = "all" | "mentions" | "verified";
+
+export interface PostSearchParams extends PageParams {
+  /** "top" orders by engagement, "latest" by time. Defaults to "top". */
+  sort?: PostSearchSort;
+}
+
+// The best few matches of each kind, for typeahead suggestions.
+export interface SearchResults {
+  users: User[];
+  posts: Post[];
+  hashtags: Hashtag[];
+}
+
+// Feeds are paged against a snapshot so that posts arriving mid-scroll
+// neither shift later pages nor get ranked into pages already loaded.
+export interface FeedPage extends Page<Post> {
+  /** When the snapshot was taken; newer posts are left out until a refresh. */
+  asOf: string;
+}
+
+// One page of direct replies to a post. Each reply carries its own first
+// page of replies, down to the depth the backend chose to expand.
+export interface ReplyPage {
+  items: ReplyNode[];
+  /** Direct replies not included in `items`. */
+  remaining: number;
+}
+
+export interface ReplyNode {
+  post: Post;
+  replies: ReplyPage;
+}
+
+export interface Thread {
+  post: Post;
+  /** The conversation above `post`, starting with the root. */
+  ancestors: Post[];
+  replies: ReplyPage;
+}
+
+export interface ReplyPageParams {
+  offset?: number;
+  limit?: number;
+}
+
+export interface SignUpInput {
+  name: string;
+  handle: string;
+  email: string;
+  password: string;
+}
+
+export interface LogInInput {
+  /** Email address or handle. */
+  identifier: string;
+  password: string;
+}
+
+// Signing in and out. These work without a session; everything in
+// `ViewerApi` requires one and fails with 401 otherwise.
+export interface SessionApi {
+  /** The signed-in user, or `null` when there is no valid session. */
+  getSession(): Promise<User | null>;
+  signUp(input: SignUpInput): Promise<User>;
+  logIn(input: LogInInput): Promise<User>;
+  logOut(): Promise<void>;
+}
+
+// Everything that is read or written on behalf of the signed-in viewer.
+export interface ViewerApi {
+  getCurrentUser(): Promise<User>;
+  /** Saves the viewer's profile; the website comes back normalized. */
+  updateProfile(input: UpdateProfileInput): Promise<User>;
+  getUsers(): Promise<User[]>;
+  getUser(handle: string): Promise<User>;
+  getFollowers(handle: string, params?: PageParams): Promise<Page<User>>;
+  getFollowing(handle: string, params?: PageParams): Promise<Page<User>>;
+  followUser(handle: string): Promise<User>;
+  unfollowUser(handle: string): Promise<User>;
+  /** Accounts the viewer might want to follow, best first. Never includes
+   * the viewer, accounts they follow, or ones they dismissed. */
+  getFollowSuggestions(params?: PageParams): Promise<Page<FollowSuggestion>>;
+  /** Stops suggesting `handle` to the viewer. */
+  dismissFollowSuggestion(handle: string): Promise<void>;
+
+  getFeed(kind: FeedKind, params?: PageParams): Promise<FeedPage>;
+  /** Posts that would join `kind` if it were refreshed, excluding the viewer's own. */
+  countNewPosts(kind: FeedKind, since: string): Promise<number>;
+  getPost(id: string): Promise<Post>;
+  getThread(id: string): Promise<Thread>;
+  getReplies(id: string, params?: ReplyPageParams): Promise<ReplyPage>;
+  /** One tab of `handle`'s profile, newest first. Defaults to "posts". */
+  getUserPosts(handle: string, tab?: ProfileTab, params?: PageParams): Promise<Page<Post>>;
+  createPost(input: CreatePostInput): Promise<Post>;
+  /** Removes the post along with every reply beneath it. */
+  deletePost(id: string): Promise<void>;
+  likePost(id: string): Promise<Post>;
+  unlikePost(id: string): Promise<Post>;
+  repost(id: string): Promise<Post>;
+  undoRepost(id: string): Promise<Post>;
+
+  /** Newest first; all of the viewer's bookmarks, or only those in `folderId`. */
+  getBookmarks(folderId?: string): Promise<Post[]>;
+  addBookmark(id: string): Promise<Post>;
+  removeBookmark(id: string): Promise<Post>;
+  /** Files a bookmark under `folderId`, or takes it out of its folder with `null`. */
+  moveBookmark(id: string, folderId: string | null): Promise<Post>;
+  getBookmarkFolders(): Promise<BookmarkFolder[]>;
+  getBookmarkFolder(id: string): Promise<BookmarkFolder>;
+  createBookmarkFolder(name: string): Promise<BookmarkFolder>;
+  renameBookmarkFolder(id: string, name: string): Promise<BookmarkFolder>;
+  /** Deletes the folder; its bookmarks are kept, unfiled. */
+  deleteBookmarkFolder(id: string): Promise<void>;
+
+  /** Newest first, optionally narrowed to one tab's worth. */
+  getNotifications(filter?: NotificationFilter): Promise<Notification[]>;
+  getUnreadNotificationCount(): Promise<number>;
+  markNotificationRead(id: string): Promise<Notification>;
+  markAllNotificationsRead(): Promise<void>;
+  getNotificationPreferences(): Promise<NotificationPreferences>;
+  /** Replaces the viewer's preferences; they apply to notifications created from now on. */
+  updateNotificationPreferences(preferences: NotificationPreferences): Promise<NotificationPreferences>;
+
+  /** Up to `limit` matches of each kind. A blank query matches nothing. */
+  search(query: string, limit?: number): Promise<SearchResults>;
+  searchUsers(query: string, params?: PageParams): Promise<Page<User>>;
+  /** A query starting with "#" matches that exact hashtag. */
+  searchPosts(query: string, params?: PostSearchParams): Promise<Page<Post>>;
+  searchHashtags(query: string, params?: PageParams): Promise<Page<Hashtag>>;
+  getHashtag(tag: string): Promise<Hashtag>;
+  /** Posts tagged with `tag`, newest first. */
+  getHashtagPosts(tag: string, params?: PageParams): Promise<Page<Post>>;
+  /** Terms spiking above their usual rate, strongest first. */
+  getTrends(limit?: number): Promise<Trend[]>;
+
+  /** Live stories from the viewer and the accounts they follow: the viewer's
+   * own reel first, then unseen reels, most recently updated first. */
+  getStoryReels(): Promise<StoryReel[]>;
+  createStory(input: CreateStoryInput): Promise<Story>;
+  markStorySeen(id: string): Promise<void>;
+
+  getConversations(): Promise<Conversation[]>;
+  getConversation(id: string): Promise<Conversation>;
+  /** Finds or creates the viewer's conversation with `handle`. */
+  startConversation(handle: string): Promise<Conversation>;
+  /** Newest first; each page continues further back in time. */
+  getMessages(conversationId: string, params?: PageParams): Promise<Page<Message>>;
+  sendMessage(conversationId: string, content: string): Promise<Message>;
+  markConversationRead(conversationId: string): Promise<Conversation>;
+  setTyping(conversationId: string, typing: boolean): Promise<void>;
+  /** Unread messages across all of the viewer's conversations. */
+  getUnreadMessageCount(): Promise<number>;
+}
+
+// The contract every backend implements. The in-memory mock, the local REST
+// server and the fetch client all expose exactly this shape, so components
+// and hooks never need to know where their data comes from.
+export interface NotificationStreamHandlers {
+  onNotification(notification: Notification): void;
+  /** Called with `true` once the stream is live and `false` whenever it drops. */
+  onStatus?(connected: boolean): void;
+}
+
+// Push delivery of the viewer's new notifications. Backends without it are
+// polled instead.
+export interface NotificationStream {
+  /** Opens the stream; the returned function closes it. */
+  subscribeToNotifications(handlers: NotificationStreamHandlers): () => void;
+}
+
+export interface Api extends SessionApi, ViewerApi, Partial<NotificationStream> {}
+
+export class ApiError extends Error {
+  status: number;
+
+  constructor(status: number, message: string) {
+    super(message);
+    this.name = "ApiError";
+    this.status = status;
+  }
+}
+
+export const isNotFound = (error: unknown) =>
+  error instanceof ApiError && error.status === 404;
+
+/** The account exists but has been suspended. */
+export const isSuspended = (error: unknown) =>
+  error instanceof ApiError && error.status === 410;
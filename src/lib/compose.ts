@@ -0,0 +1,29 @@
+// Helpers for @mention / #hashtag autocompletion in the post composer.
+
+export interface ActiveToken {
+  trigger: "@" | "#";
+  query: string;
+  /** Index of the trigger character in the text. */
+  start: number;
+  /** Caret position the token ends at. */
+  end: number;
+}
+
+const TOKEN_BEFORE_CARET = /(^|\s)([@#])(\w*)$/;
+
+// Returns the @/# token the caret is currently inside, if any.
+export function getActiveToken(text: string, caret: number): ActiveToken | null {
+  const match = TOKEN_BEFORE_CARET.exec(text.slice(0, caret));
+  if (!match) return null;
+  const start = caret - match[2].length - match[3].length;
+  return { trigger: match[2] as ActiveToken["trigger"], query: match[3], start, end: caret };
+}
+
+// Replaces the active token with `value` and returns the new text and caret.
+export function applySuggestion(text: string, token: ActiveToken, value: string) {
+  const insertion = `${token.trigger}${value} `;
+  return {
+    text: text.slice(0, token.start) + insertion + text.slice(token.end),
+    caret: token.start + insertion.length,
+  };
+}
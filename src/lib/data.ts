@@ -1,4 +1,7 @@
-export interface User {
+import { sub, type Duration } from "date-fns";
+
+// What an account stores about itself; enough to render it as a post author.
+export interface UserProfile {
   name: string;
   handle: string;
   avatarUrl: string;
@@ -6,32 +9,188 @@ export interface User {
   bio: string;
   location: string;
   website: string;
+  /** ISO 8601 sign-up date. */
   joined: string;
+  verified?: boolean;
+  /** Suspended accounts can't be viewed, followed or messaged. */
+  suspended?: boolean;
+}
+
+// A profile plus its follow graph, as seen by the current viewer.
+export interface User extends UserProfile {
   following: number;
   followers: number;
+  /** The viewer follows this account. */
+  followedByMe?: boolean;
+  /** This account follows the viewer. */
+  followsMe?: boolean;
+}
+
+// An image attached to a post.
+export interface PostMedia {
+  url: string;
+  /** Description for screen readers; empty when the author didn't write one. */
+  alt: string;
 }
 
 export interface Post {
   id: string;
-  author: User;
+  author: UserProfile;
   content: string;
-  imageUrl?: string;
+  /** Attached images, in the order the author added them. */
+  media?: PostMedia[];
+  /** ISO 8601 creation time. */
   timestamp: string;
   likes: number;
   reposts: number;
   comments: number;
+  /** Id of the post this one replies to. */
+  parentId?: string;
+  /** Id of the top-level post that started the conversation. */
+  rootId?: string;
+  /** Viewer-relative state, filled in by the API. */
+  likedByMe?: boolean;
+  repostedByMe?: boolean;
+  bookmarkedByMe?: boolean;
+  /** Folder the viewer filed their bookmark under; unset for unfiled bookmarks. */
+  bookmarkFolderId?: string;
+}
+
+// A hashtag and how many posts use it.
+export interface Hashtag {
+  /** Lowercase, without the leading "#". */
+  tag: string;
+  posts: number;
+}
+
+// An account recommended to the viewer, with what they have in common.
+export interface FollowSuggestion {
+  user: User;
+  /** A few of the accounts the viewer follows that follow this one. */
+  mutuals: UserProfile[];
+  mutualCount: number;
+  /** Hashtags the viewer and this account both use, most shared first. */
+  sharedHashtags: string[];
+}
+
+// A hashtag or phrase being used unusually often right now.
+export interface Trend {
+  kind: "hashtag" | "phrase";
+  /** Lowercase; hashtags without the leading "#". */
+  term: string;
+  /** Posts using it within the last `windowHours`. */
+  posts: number;
+  windowHours: number;
+}
+
+// A named collection the viewer files bookmarks into.
+export interface BookmarkFolder {
+  id: string;
+  name: string;
+  /** Bookmarks currently in the folder. */
+  count: number;
+  /** ISO 8601 creation time. */
+  createdAt: string;
 }
 
+// Every event that can notify someone. The notification renderers are keyed
+// on this union, so a new kind won't compile until it can be displayed.
+export const NOTIFICATION_TYPES = ["like", "repost", "follow", "mention", "reply"] as const;
+
+export type NotificationType = (typeof NOTIFICATION_TYPES)[number];
+
 export interface Notification {
   id: string;
-  type: 'like' | 'repost' | 'follow' | 'mention';
-  user: User;
+  type: NotificationType;
+  /** Who caused the event. */
+  user: UserProfile;
+  /** The liked or reposted post, or the reply or mention itself. Unset for follows. */
   post?: Post;
+  /** ISO 8601 time of the event. */
+  timestamp: string;
+  /** The viewer has seen this notification. */
+  read: boolean;
+}
+
+// Who may notify a user: anyone, or only accounts they follow.
+export type NotificationAudience = "everyone" | "following";
+
+export type EmailDigestFrequency = "off" | "daily" | "weekly";
+
+// What a user wants to be notified about and when.
+export interface NotificationPreferences {
+  /** Kinds switched off are never created. */
+  types: Record<NotificationType, boolean>;
+  from: NotificationAudience;
+  /** Notifications arriving in this window are held until it ends. */
+  quietHours: {
+    enabled: boolean;
+    /** Hours of the day, 0–23, in `timeZone`. The window may wrap past midnight. */
+    startHour: number;
+    endHour: number;
+    /** IANA zone, e.g. "Europe/Berlin". */
+    timeZone: string;
+  };
+  /** Stored only: nothing sends email yet. */
+  emailDigest: EmailDigestFrequency;
+}
+
+/** Backdrops a text story can be set on. */
+export const STORY_BACKGROUNDS = ["sky", "sunset", "forest", "night"] as const;
+
+export type StoryBackground = (typeof STORY_BACKGROUNDS)[number];
+
+// A photo or a short text card, visible for a day after it's posted.
+export interface Story {
+  id: string;
+  imageUrl?: string;
+  /** The whole card for text stories; a caption over photos. */
+  text?: string;
+  background?: StoryBackground;
+  /** ISO 8601 creation time. */
+  timestamp: string;
+  /** ISO 8601 time the story disappears. */
+  expiresAt: string;
+  /** The viewer has seen it. */
+  seen: boolean;
+}
+
+// One account's live stories, oldest first.
+export interface StoryReel {
+  author: UserProfile;
+  stories: Story[];
+  /** Every story in the reel has been seen. */
+  seen: boolean;
+}
+
+export interface Message {
+  id: string;
+  conversationId: string;
+  sender: UserProfile;
+  content: string;
+  /** ISO 8601 send time. */
   timestamp: string;
+  /** The other participant has read this message. */
+  seen: boolean;
 }
 
+// A one-to-one conversation, as seen by the current viewer.
+export interface Conversation {
+  id: string;
+  /** The other person in the conversation. */
+  participant: UserProfile;
+  lastMessage?: Message;
+  /** Messages from `participant` the viewer hasn't read yet. */
+  unreadCount: number;
+  /** `participant` is typing right now. */
+  isTyping: boolean;
+}
 
-export const users: User[] = [
+// Fixture times are relative to when the app loads, so the demo always
+// looks freshly active.
+const ago = (duration: Duration) => sub(new Date(), duration).toISOString();
+
+export const users: UserProfile[] = [
   {
     name: "Alex Doe",
     handle: "alexdoe",
@@ -40,33 +199,29 @@ export const users: User[] = [
     bio: "Frontend Developer | React Enthusiast | Building beautiful and performant web apps. 🚀",
     location: "San Francisco, CA",
     website: "alexdoe.dev",
-    joined: "Joined October 2021",
-    following: 256,
-    followers: 1842,
+    joined: "2021-10-12T00:00:00.000Z",
   },
   {
     name: "Jane Smith",
     handle: "janesmith",
+    verified: true,
     avatarUrl: "https://images.unsplash.com/photo-1494790108377-be9c29b29330?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=987&q=80",
     coverUrl: "https://images.unsplash.com/photo-1554189097-c48cf35b1a5a?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
     bio: "UI/UX Designer creating seamless digital experiences. Cat lover 🐈.",
     location: "New York, NY",
     website: "janesmith.design",
-    joined: "Joined May 2020",
-    following: 512,
-    followers: 5321,
+    joined: "2020-05-04T00:00:00.000Z",
   },
   {
     name: "Dev Guru",
     handle: "devguru",
+    verified: true,
     avatarUrl: "https://images.unsplash.com/photo-1507003211169-0a1dd7228f2d?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=987&q=80",
     coverUrl: "https://images.unsplash.com/photo-1510915228340-29c85a43dcfe?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
     bio: "Full-stack engineer. I turn coffee into code.",
     location: "Austin, TX",
     website: "dev.guru",
-    joined: "Joined January 2019",
-    following: 100,
-    followers: 10500,
+    joined: "2019-01-21T00:00:00.000Z",
   },
    {
     name: "Olivia Chen",
@@ -76,9 +231,18 @@ export const users: User[] = [
     bio: "Photographer & Digital Nomad. Capturing moments around the world 🌏.",
     location: "Everywhere",
     website: "oliviachen.photo",
-    joined: "Joined March 2022",
-    following: 800,
-    followers: 12400,
+    joined: "2022-03-08T00:00:00.000Z",
+  },
+  {
+    name: "Free Crypto Giveaway",
+    handle: "cryptodeals",
+    suspended: true,
+    avatarUrl: "",
+    coverUrl: "",
+    bio: "",
+    location: "",
+    website: "",
+    joined: "2024-02-29T00:00:00.000Z",
   },
 ];
 
@@ -87,7 +251,7 @@ export const posts: Post[] = [
     id: "post1",
     author: users[1],
     content: "Just launched my new portfolio website! So excited to share my latest work with everyone. Check it out and let me know what you think! #design #uidesign #portfolio",
-    timestamp: "2h",
+    timestamp: ago({ hours: 2 }),
     likes: 156,
     reposts: 32,
     comments: 12,
@@ -95,9 +259,14 @@ export const posts: Post[] = [
   {
     id: "post2",
     author: users[0],
-    content: "Finally got around to learning Tailwind CSS. It's a game-changer for rapidly building UIs. Highly recommend giving it a try if you haven't already!",
-    imageUrl: "https://images.unsplash.com/photo-1617396900799-f4ec2b43c7ae?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
-    timestamp: "5h",
+    content: "Finally got around to learning Tailwind CSS. It's a game-changer for rapidly building UIs. Highly recommend giving it a try if you haven't already! https://tailwindcss.com/docs #tailwindcss #webdev",
+    media: [
+      {
+        url: "https://images.unsplash.com/photo-1617396900799-f4ec2b43c7ae?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
+        alt: "Code editor with Tailwind CSS classes on a dark theme",
+      },
+    ],
+    timestamp: ago({ hours: 5 }),
     likes: 289,
     reposts: 78,
     comments: 25,
@@ -106,7 +275,7 @@ export const posts: Post[] = [
     id: "post3",
     author: users[2],
     content: "Debugging is like being a detective in a crime movie where you are also the murderer.",
-    timestamp: "1d",
+    timestamp: ago({ days: 1 }),
     likes: 1200,
     reposts: 450,
     comments: 89,
@@ -115,40 +284,109 @@ export const posts: Post[] = [
     id: "post4",
     author: users[3],
     content: "Sunrise over the mountains in Bali. Truly a magical experience. Feeling so grateful for these moments.",
-    imageUrl: "https://images.unsplash.com/photo-1534349988431-91d32169a591?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
-    timestamp: "3d",
+    media: [
+      {
+        url: "https://images.unsplash.com/photo-1534349988431-91d32169a591?ixlib=rb-4.0.3&ixid=M3wxMjA3fDB8MHxwaG90by1wYWdlfHx8fGVufDB8fHx8fA%3D%3D&auto=format&fit=crop&w=1770&q=80",
+        alt: "Sunrise over mountain peaks above the clouds",
+      },
+    ],
+    timestamp: ago({ days: 3 }),
     likes: 3400,
     reposts: 980,
     comments: 150,
   },
+  {
+    id: "post5",
+    author: users[2],
+    parentId: "post1",
+    rootId: "post1",
+    content: "Love the typography choices. What did you build it with?",
+    timestamp: ago({ hours: 1 }),
+    likes: 24,
+    reposts: 0,
+    comments: 1,
+  },
+  {
+    id: "post6",
+    author: users[1],
+    parentId: "post5",
+    rootId: "post1",
+    content: "Thanks @devguru! Plain React + Tailwind, hosted on Vercel. Nothing fancy. #webdev",
+    timestamp: ago({ minutes: 45 }),
+    likes: 12,
+    reposts: 0,
+    comments: 0,
+  },
+  {
+    id: "post7",
+    author: users[3],
+    parentId: "post1",
+    rootId: "post1",
+    content: "The case studies section is gorgeous 😍",
+    timestamp: ago({ minutes: 30 }),
+    likes: 8,
+    reposts: 0,
+    comments: 0,
+  },
+  {
+    id: "post8",
+    author: users[0],
+    parentId: "post3",
+    rootId: "post3",
+    content: "And the detective keeps adding console.logs until the murderer confesses.",
+    timestamp: ago({ hours: 20 }),
+    likes: 310,
+    reposts: 12,
+    comments: 0,
+  },
 ];
 
 export const notifications: Notification[] = [
     {
         id: 'notif1',
+        read: false,
         type: 'like',
         user: users[1],
         post: posts[1],
-        timestamp: '2m'
+        timestamp: ago({ minutes: 2 })
     },
     {
         id: 'notif2',
+        read: false,
         type: 'follow',
         user: users[2],
-        timestamp: '15m'
+        timestamp: ago({ minutes: 15 })
     },
     {
         id: 'notif3',
+        read: true,
         type: 'repost',
         user: users[3],
         post: posts[0],
-        timestamp: '1h'
+        timestamp: ago({ hours: 1 })
     },
     {
         id: 'notif4',
+        read: true,
         type: 'mention',
-        user: users[0],
+        user: users[2],
         post: posts[2],
-        timestamp: '3h'
+        timestamp: ago({ hours: 3 })
+    },
+    {
+        id: 'notif5',
+        type: 'like',
+        read: false,
+        user: users[2],
+        post: posts[1],
+        timestamp: ago({ minutes: 20 })
+    },
+    {
+        id: 'notif6',
+        type: 'like',
+        read: true,
+        user: users[3],
+        post: posts[1],
+        timestamp: ago({ hours: 4 })
     }
 ]
@@ -0,0 +1,54 @@
+// Reading picked image files, and the geometry behind the crop editor.
+
+export const MAX_IMAGE_BYTES = 5 * 1024 * 1024;
+
+export const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Where the image sits inside the crop frame. At zoom 1 the image just covers
+// the frame; `x` and `y` move its centre away from the frame's centre, in
+// frame widths and heights.
+export interface Crop {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+export const MIN_CROP_ZOOM = 1;
+export const MAX_CROP_ZOOM = 4;
+
+export const INITIAL_CROP: Crop = { zoom: 1, x: 0, y: 0 };
+
+// The image's size in frame widths and heights.
+export function coveredSize(imageAspect: number, frameAspect: number, zoom: number) {
+  return {
+    width: Math.max(1, imageAspect / frameAspect) * zoom,
+    height: Math.max(1, frameAspect / imageAspect) * zoom,
+  };
+}
+
+// Keeps the frame inside the image, so no empty edge is ever cropped in.
+export function clampCrop(crop: Crop, imageAspect: number, frameAspect: number): Crop {
+  const zoom = Math.min(MAX_CROP_ZOOM, Math.max(MIN_CROP_ZOOM, crop.zoom));
+  const { width, height } = coveredSize(imageAspect, frameAspect, zoom);
+  const clamp = (value: number, limit: number) => Math.min(limit, Math.max(-limit, value));
+  return { zoom, x: clamp(crop.x, (width - 1) / 2), y: clamp(crop.y, (height - 1) / 2) };
+}
+
+// The part of the image, in its own pixels, that the frame shows.
+export function cropRegion(crop: Crop, image: { width: number; height: number }, frameAspect: number) {
+  const { width, height } = coveredSize(image.width / image.height, frameAspect, crop.zoom);
+  const left = 0.5 + crop.x - width / 2;
+  const top = 0.5 + crop.y - height / 2;
+  return {
+    x: (-left / width) * image.width,
+    y: (-top / height) * image.height,
+    width: image.width / width,
+    height: image.height / height,
+  };
+}
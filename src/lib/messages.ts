@@ -0,0 +1,44 @@
+import { isSameDay } from "date-fns";
+import type { Message, UserProfile } from "./data";
+
+// Consecutive messages from one sender closer together than this share a
+// single cluster (one avatar, one timestamp).
+const CLUSTER_GAP_MS = 5 * 60 * 1000;
+
+export interface MessageCluster {
+  sender: UserProfile;
+  messages: Message[];
+}
+
+export interface MessageDay {
+  /** Timestamp of the day's first message; use it to label the day. */
+  date: string;
+  clusters: MessageCluster[];
+}
+
+// Groups oldest-first messages by calendar day, then into runs by sender.
+export function groupMessages(messages: Message[]): MessageDay[] {
+  const days: MessageDay[] = [];
+
+  for (const message of messages) {
+    let day = days[days.length - 1];
+    if (!day || !isSameDay(Date.parse(day.date), Date.parse(message.timestamp))) {
+      day = { date: message.timestamp, clusters: [] };
+      days.push(day);
+    }
+
+    const cluster = day.clusters[day.clusters.length - 1];
+    const previous = cluster?.messages[cluster.messages.length - 1];
+    if (
+      cluster &&
+      cluster.sender.handle === message.sender.handle &&
+      Date.parse(message.timestamp) - Date.parse(previous.timestamp) < CLUSTER_GAP_MS
+    ) {
+      cluster.messages.push(message);
+    } else {
+      day.clusters.push({ sender: message.sender, messages: [message] });
+    }
+  }
+
+  return days;
+}
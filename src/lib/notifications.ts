@@ -0,0 +1,119 @@
+import type { NotificationFilter } from "./api/types";
+import {
+  NOTIFICATION_TYPES,
+  type Notification,
+  type NotificationPreferences,
+  type NotificationType,
+  type UserProfile,
+} from "./data";
+
+// Notification tabs, the grouping that turns a burst of likes into a single
+// "Jane and 12 others liked your post" row, and quiet-hours arithmetic.
+
+export const matchesNotificationFilter = (notification: Notification, filter: NotificationFilter) => {
+  switch (filter) {
+    case "all":
+      return true;
+    case "mentions":
+      // Replies are addressed to the viewer just as mentions are.
+      return notification.type === "mention" || notification.type === "reply";
+    case "verified":
+      return !!notification.user.verified;
+  }
+};
+
+// Events of these types on the same post (or, for follows, on the account)
+// collapse into one row. Mentions and replies are each a different post, so
+// those never do.
+const GROUPED_TYPES: NotificationType[] = ["like", "repost", "follow"];
+
+// How far back from its newest event a group reaches.
+export const NOTIFICATION_GROUP_WINDOW_MS = 24 * 60 * 60 * 1000;
+
+export interface NotificationGroup {
+  /** Id of the newest notification in the group. */
+  id: string;
+  type: NotificationType;
+  post?: Notification["post"];
+  /** Distinct actors, most recent first. */
+  actors: UserProfile[];
+  /** Every notification folded into the group. */
+  notificationIds: string[];
+  /** Time of the newest event. */
+  timestamp: string;
+  /** Every notification in the group has been read. */
+  read: boolean;
+}
+
+// Groups `notifications` (newest first) by type and post, within
+// `windowMs` of each group's newest event. Groups keep newest-first order.
+export function groupNotifications(
+  notifications: Notification[],
+  windowMs = NOTIFICATION_GROUP_WINDOW_MS
+): NotificationGroup[] {
+  const groups: NotificationGroup[] = [];
+  const open = new Map<string, NotificationGroup>();
+
+  for (const notification of notifications) {
+    const key = `${notification.type}:${notification.post?.id ?? ""}`;
+    const group = GROUPED_TYPES.includes(notification.type) ? open.get(key) : undefined;
+
+    if (group && Date.parse(group.timestamp) - Date.parse(notification.timestamp) <= windowMs) {
+      if (!group.actors.some((actor) => actor.handle === notification.user.handle)) {
+        group.actors.push(notification.user);
+      }
+      group.notificationIds.push(notification.id);
+      group.read = group.read && notification.read;
+      continue;
+    }
+
+    const next: NotificationGroup = {
+      id: notification.id,
+      type: notification.type,
+      post: notification.post,
+      actors: [notification.user],
+      notificationIds: [notification.id],
+      timestamp: notification.timestamp,
+      read: notification.read,
+    };
+    groups.push(next);
+    open.set(key, next);
+  }
+
+  return groups;
+}
+
+// What a user gets until they change anything: every kind, from everyone, at
+// any hour, no emails.
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferences = {
+  types: Object.fromEntries(NOTIFICATION_TYPES.map((type) => [type, true])) as Record<NotificationType, boolean>,
+  from: "everyone",
+  quietHours: { enabled: false, startHour: 22, endHour: 7, timeZone: "UTC" },
+  emailDigest: "off",
+};
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MINUTES = 24 * 60;
+
+// Minutes past midnight at `date` on a wall clock in `timeZone`.
+const minutesInZone = (date: Date, timeZone: string) => {
+  const parts = new Intl.DateTimeFormat("en-US", { timeZone, hour: "numeric", minute: "numeric", hourCycle: "h23" })
+    .formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find((p) => p.type === type)?.value ?? 0);
+  return part("hour") * 60 + part("minute");
+};
+
+// When quiet hours that cover `date` end, or null if they don't cover it.
+export function quietHoursEnd(quietHours: NotificationPreferences["quietHours"], date: Date): Date | null {
+  const { enabled, startHour, endHour, timeZone } = quietHours;
+  if (!enabled || startHour === endHour) return null;
+
+  const now = minutesInZone(date, timeZone);
+  const start = startHour * 60;
+  const end = endHour * 60;
+  const inside = start < end ? now >= start && now < end : now >= start || now < end;
+  if (!inside) return null;
+
+  const startOfMinute = Math.floor(date.getTime() / MINUTE_MS) * MINUTE_MS;
+  return new Date(startOfMinute + ((end - now + DAY_MINUTES) % DAY_MINUTES) * MINUTE_MS);
+}
@@ -0,0 +1,91 @@
+// Splits post text into the pieces that render differently: hashtags,
+// @mentions, links and emoji, with plain text in between. The backend uses
+// the same rules to index hashtags and notify mentioned users, so what
+// renders as a link is exactly what the app treats as one.
+
+export type Segment =
+  | { type: "text"; text: string }
+  | { type: "hashtag"; text: string; /** Lowercase, without "#". */ tag: string }
+  | { type: "mention"; text: string; handle: string }
+  | { type: "url"; text: string; href: string }
+  | { type: "emoji"; text: string };
+
+// Alternatives are tried left to right at each position, so a "#" or "@"
+// inside a link stays part of the link. Hashtags and mentions must not
+// follow a word character, which keeps "a@b.com" and "c#" as plain text.
+const TOKEN_PATTERN = new RegExp(
+  [
+    /(?<url>\b(?:https?:\/\/|www\.)[^\s<>"]+)/.source,
+    /(?<![\w#])#(?<tag>\w*[^\W\d]\w*)/.source,
+    /(?<![\w@])@(?<handle>\w{1,15})\b/.source,
+    /(?<emoji>\p{Regional_Indicator}{2}|\p{Extended_Pictographic}(?:\uFE0F|[\u{1F3FB}-\u{1F3FF}]|\u200D\p{Extended_Pictographic}\uFE0F?)*)/u
+      .source,
+  ].join("|"),
+  "gu"
+);
+
+// Punctuation that usually ends the sentence rather than the link.
+const TRAILING_PUNCTUATION = /[.,!?;:'")\]]+$/;
+
+function splitUrl(raw: string) {
+  let url = raw.replace(TRAILING_PUNCTUATION, "");
+  // Keep a closing parenthesis that balances one inside the link, as in
+  // Wikipedia-style URLs.
+  const count = (char: string) => url.split(char).length - 1;
+  while (raw[url.length] === ")" && count("(") > count(")")) url += ")";
+  return url;
+}
+
+export function tokenize(text: string): Segment[] {
+  const segments: Segment[] = [];
+  let last = 0;
+
+  const pushText = (end: number) => {
+    if (end > last) segments.push({ type: "text", text: text.slice(last, end) });
+  };
+
+  for (const match of text.matchAll(TOKEN_PATTERN)) {
+    const start = match.index ?? 0;
+    const groups = match.groups ?? {};
+    let token = match[0];
+
+    if (groups.url) {
+      token = splitUrl(groups.url);
+      pushText(start);
+      segments.push({ type: "url", text: token, href: token.startsWith("www.") ? `https://${token}` : token });
+    } else {
+      pushText(start);
+      if (groups.tag) segments.push({ type: "hashtag", text: token, tag: groups.tag.toLowerCase() });
+      else if (groups.handle) segments.push({ type: "mention", text: token, handle: groups.handle });
+      else segments.push({ type: "emoji", text: token });
+    }
+    last = start + token.length;
+  }
+  pushText(text.length);
+
+  return segments;
+}
+
+// Distinct hashtags in `text`, lowercase and without "#".
+export function extractHashtags(text: string): string[] {
+  const tags = tokenize(text).flatMap((s) => (s.type === "hashtag" ? [s.tag] : []));
+  return Array.from(new Set(tags));
+}
+
+// Distinct handles mentioned in `text`, without "@".
+export function extractMentions(text: string): string[] {
+  const handles = tokenize(text).flatMap((s) => (s.type === "mention" ? [s.handle] : []));
+  return Array.from(new Set(handles));
+}
+
+// A link as shown in a post: no scheme, and long paths shortened.
+export function displayUrl(url: string, maxLength = 32): string {
+  const bare = url.replace(/^https?:\/\/(www\.)?/, "").replace(/^www\./, "");
+  return bare.length > maxLength ? `${bare.slice(0, maxLength - 1)}…` : bare;
+}
+
+// Posts made of nothing but a few emoji are shown larger.
+export function isEmojiOnly(segments: Segment[], max = 3): boolean {
+  const visible = segments.filter((s) => !(s.type === "text" && !s.text.trim()));
+  return visible.length > 0 && visible.length <= max && visible.every((s) => s.type === "emoji");
+}
@@ -0,0 +1,23 @@
+// Profile field helpers shared by the edit form and the API.
+
+// Websites are stored without a scheme ("jane.design/work") and linked over
+// https. Anything that doesn't parse as an http(s) address on a dotted host
+// is rejected with `null`; a blank value clears the field.
+export function normalizeWebsite(input: string): string | null {
+  const trimmed = input.trim();
+  if (!trimmed) return "";
+
+  let url: URL;
+  try {
+    url = new URL(/^[a-z][a-z\d+.-]*:\/\//i.test(trimmed) ? trimmed : `https://${trimmed}`);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") return null;
+  if (url.username || url.password || !/^[^.]+(\.[^.]+)+$/.test(url.hostname)) return null;
+
+  const path = url.pathname.replace(/\/$/, "");
+  return `${url.host}${path}${url.search}${url.hash}`;
+}
+
+export const websiteHref = (website: string) => `https://${website}`;
@@ -0,0 +1,43 @@
+import type { QueryClient, QueryKey } from "@tanstack/react-query";
+
+// Helpers for optimistic updates that touch more than one cached query.
+
+export type QuerySnapshot = [QueryKey, unknown][];
+
+// Pauses in-flight queries under `queryKey` and captures their data, so an
+// optimistic update can be rolled back wholesale.
+export async function snapshotQueries(queryClient: QueryClient, queryKey: QueryKey): Promise<QuerySnapshot> {
+  await queryClient.cancelQueries({ queryKey });
+  return queryClient.getQueriesData({ queryKey });
+}
+
+export function restoreQueries(queryClient: QueryClient, snapshot: QuerySnapshot | undefined) {
+  snapshot?.forEach(([key, data]) => queryClient.setQueryData<unknown>(key, data));
+}
+
+// Rebuilds `value` with `patch` applied to every object matching `match`.
+// Cached data comes in several shapes (lists, details, pages, trees), so this
+// walks the structure instead of assuming one.
+export function patchDeep<T extends object>(
+  value: unknown,
+  match: (item: object) => item is T,
+  patch: (item: T) => T
+): unknown {
+  if (Array.isArray(value)) return value.map((item) => patchDeep(item, match, patch));
+  if (!value || typeof value !== "object") return value;
+  if (match(value)) return patch(value);
+  return Object.fromEntries(
+    Object.entries(value).map(([key, item]) => [key, patchDeep(item, match, patch)])
+  );
+}
+
+export function patchQueries<T extends object>(
+  queryClient: QueryClient,
+  queryKey: QueryKey,
+  match: (item: object) => item is T,
+  patch: (item: T) => T
+) {
+  queryClient.setQueriesData<unknown>({ queryKey }, (data) =>
+    data === undefined ? data : patchDeep(data, match, patch)
+  );
+}
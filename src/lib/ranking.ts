@@ -0,0 +1,70 @@
+// Scoring for the "For you" timeline. Everything here is a pure function of
+// its inputs so ranking strategies can be swapped and tested in isolation.
+
+export interface RankingSignals {
+  /** Hours since the post was created. */
+  ageHours: number;
+  likes: number;
+  reposts: number;
+  comments: number;
+  /** How much the viewer cares about the author, from 0 to 1. */
+  affinity: number;
+}
+
+export type RankingFunction = (signals: RankingSignals) => number;
+
+export interface RankingWeights {
+  likes: number;
+  reposts: number;
+  comments: number;
+  /** Multiplier applied at full affinity. */
+  affinity: number;
+  /** How quickly scores decay with age; higher favours fresher posts. */
+  gravity: number;
+}
+
+export const DEFAULT_RANKING_WEIGHTS: RankingWeights = {
+  likes: 1,
+  reposts: 2,
+  comments: 1.5,
+  affinity: 3,
+  gravity: 1.5,
+};
+
+// Engagement is log-scaled so one viral post cannot bury everything else,
+// boosted by affinity and divided by an age penalty (Hacker News style).
+export function createRanking(weights: Partial<RankingWeights> = {}): RankingFunction {
+  const w = { ...DEFAULT_RANKING_WEIGHTS, ...weights };
+
+  return ({ ageHours, likes, reposts, comments, affinity }) => {
+    const engagement = Math.log1p(likes * w.likes + reposts * w.reposts + comments * w.comments);
+    const boost = 1 + Math.min(Math.max(affinity, 0), 1) * w.affinity;
+    return ((1 + engagement) * boost) / Math.pow(Math.max(ageHours, 0) + 2, w.gravity);
+  };
+}
+
+export const defaultRanking = createRanking();
+
+export interface AffinityInput {
+  /** The viewer follows the author. */
+  follows: boolean;
+  /** Likes and reposts the viewer has given the author's posts. */
+  interactions: number;
+}
+
+// Following counts for half; recent engagement with the author fills the rest.
+export function authorAffinity({ follows, interactions }: AffinityInput): number {
+  return (follows ? 0.5 : 0) + Math.min(interactions * 0.1, 0.5);
+}
+
+// Sorts `items` best-first. Ties keep their original (newest-first) order.
+export function rankItems<T>(
+  items: T[],
+  signalsOf: (item: T) => RankingSignals,
+  rank: RankingFunction = defaultRanking
+): T[] {
+  return items
+    .map((item, index) => ({ item, index, score: rank(signalsOf(item)) }))
+    .sort((a, b) => b.score - a.score || a.index - b.index)
+    .map(({ item }) => item);
+}
@@ -0,0 +1,48 @@
+// Scoring for "Who to follow". Like ranking.ts, everything here is a pure
+// function of its inputs so the weighting can be tuned in isolation.
+
+export interface SuggestionSignals {
+  /** Accounts the viewer follows that follow the candidate. */
+  mutuals: number;
+  /** Hashtags the viewer and the candidate both post or engage with. */
+  sharedHashtags: number;
+  /** Posts both of them have liked, reposted or replied to. */
+  sharedEngagement: number;
+  /** The candidate already follows the viewer. */
+  followsViewer: boolean;
+  followers: number;
+}
+
+export type SuggestionScore = (signals: SuggestionSignals) => number;
+
+export interface SuggestionWeights {
+  mutuals: number;
+  sharedHashtags: number;
+  sharedEngagement: number;
+  followsViewer: number;
+  /** Small pull towards well-followed accounts, mostly to order strangers. */
+  popularity: number;
+}
+
+export const DEFAULT_SUGGESTION_WEIGHTS: SuggestionWeights = {
+  mutuals: 3,
+  sharedHashtags: 2,
+  sharedEngagement: 1.5,
+  followsViewer: 4,
+  popularity: 0.25,
+};
+
+// Each overlap signal is square-rooted so a pile of one kind of evidence
+// can't outweigh a little of every kind.
+export function createSuggestionScore(weights: Partial<SuggestionWeights> = {}): SuggestionScore {
+  const w = { ...DEFAULT_SUGGESTION_WEIGHTS, ...weights };
+
+  return ({ mutuals, sharedHashtags, sharedEngagement, followsViewer, followers }) =>
+    Math.sqrt(mutuals) * w.mutuals +
+    Math.sqrt(sharedHashtags) * w.sharedHashtags +
+    Math.sqrt(sharedEngagement) * w.sharedEngagement +
+    (followsViewer ? w.followsViewer : 0) +
+    Math.log1p(followers) * w.popularity;
+}
+
+export const defaultSuggestionScore = createSuggestionScore();
@@ -0,0 +1,67 @@
+import type { SearchResults } from "./api";
+import type { Hashtag, Post, Trend, User } from "./data";
+
+// Shared by the typeahead and the ⌘K palette: both show the same grouped
+// suggestions and send the viewer to the same places.
+
+export type SearchTab = "top" | "latest" | "people" | "hashtags";
+
+export const searchPath = (query: string, tab: SearchTab = "top") => {
+  const params = new URLSearchParams({ q: query.trim() });
+  if (tab !== "top") params.set("f", tab);
+  return `/search?${params}`;
+};
+
+// A trend's results: hashtags search for the exact tag, phrases as typed.
+export const trendPath = (trend: Trend) => searchPath(trend.kind === "hashtag" ? `#${trend.term}` : trend.term);
+
+export type Suggestion =
+  | { kind: "user"; user: User }
+  | { kind: "hashtag"; hashtag: Hashtag }
+  | { kind: "post"; post: Post }
+  /** Runs the full search for what was typed. */
+  | { kind: "query"; query: string };
+
+export interface SuggestionGroup {
+  heading: string;
+  items: Suggestion[];
+}
+
+// Non-empty groups in display order, ending with the full-search fallback.
+export function suggestionGroups(results: SearchResults | undefined, query: string): SuggestionGroup[] {
+  const groups: SuggestionGroup[] = [
+    { heading: "People", items: results?.users.map((user) => ({ kind: "user", user })) ?? [] },
+    { heading: "Hashtags", items: results?.hashtags.map((hashtag) => ({ kind: "hashtag", hashtag })) ?? [] },
+    { heading: "Posts", items: results?.posts.map((post) => ({ kind: "post", post })) ?? [] },
+  ];
+  return [
+    ...groups.filter((group) => group.items.length > 0),
+    { heading: "Search", items: [{ kind: "query", query }] },
+  ];
+}
+
+export function suggestionPath(suggestion: Suggestion): string {
+  switch (suggestion.kind) {
+    case "user":
+      return `/profile/${suggestion.user.handle}`;
+    case "hashtag":
+      return `/hashtag/${suggestion.hashtag.tag}`;
+    case "post":
+      return `/post/${suggestion.post.id}`;
+    case "query":
+      return searchPath(suggestion.query);
+  }
+}
+
+export function suggestionKey(suggestion: Suggestion): string {
+  switch (suggestion.kind) {
+    case "user":
+      return `user:${suggestion.user.handle}`;
+    case "hashtag":
+      return `hashtag:${suggestion.hashtag.tag}`;
+    case "post":
+      return `post:${suggestion.post.id}`;
+    case "query":
+      return `query:${suggestion.query}`;
+  }
+}
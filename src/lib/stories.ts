@@ -0,0 +1,39 @@
+import type { StoryBackground, StoryReel } from "./data";
+
+// Playback order for the story viewer. Reels play one after another and each
+// story within a reel in turn.
+
+// How long each story stays on screen before the viewer moves on.
+export const STORY_DURATION_MS = 5000;
+
+export interface StoryPosition {
+  reel: number;
+  story: number;
+}
+
+// Where a reel starts playing: its first unseen story, or the beginning once
+// everything in it has been seen.
+export const firstUnseenStory = (reel: StoryReel) => Math.max(0, reel.stories.findIndex((story) => !story.seen));
+
+// The story after `position`, or null once the last reel has finished.
+export function nextStory(reels: StoryReel[], { reel, story }: StoryPosition): StoryPosition | null {
+  if (story + 1 < reels[reel].stories.length) return { reel, story: story + 1 };
+  if (reel + 1 < reels.length) return { reel: reel + 1, story: firstUnseenStory(reels[reel + 1]) };
+  return null;
+}
+
+// The story before `position`, or null at the very first one. Stepping back
+// out of a reel lands at the start of the previous one.
+export function previousStory(reels: StoryReel[], { reel, story }: StoryPosition): StoryPosition | null {
+  if (story > 0) return { reel, story: story - 1 };
+  if (reel > 0) return { reel: reel - 1, story: 0 };
+  return null;
+}
+
+// Backdrops for text-only stories.
+export const STORY_BACKGROUND_CLASSES: Record<StoryBackground, string> = {
+  sky: "bg-gradient-to-br from-sky-400 to-indigo-600",
+  sunset: "bg-gradient-to-br from-yellow-400 via-red-500 to-purple-600",
+  forest: "bg-gradient-to-br from-emerald-400 to-teal-800",
+  night: "bg-gradient-to-br from-neutral-700 to-neutral-950",
+};
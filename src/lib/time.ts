@@ -0,0 +1,108 @@
+import { differenceInSeconds, isSameDay, isSameYear, isValid, parseISO, subDays } from "date-fns";
+
+// Date arithmetic goes through date-fns; the words and numbers themselves come
+// from Intl so every string follows the reader's locale without shipping
+// translation tables.
+
+const MINUTE = 60;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+const WEEK = 7 * DAY;
+
+const preferredLocale = () =>
+  typeof navigator === "undefined" ? undefined : navigator.languages?.[0] ?? navigator.language;
+
+// Intl formatters are expensive to construct, so each configuration is built once.
+const formatters = new Map<string, Intl.NumberFormat | Intl.DateTimeFormat | Intl.RelativeTimeFormat>();
+
+function cached<T extends Intl.NumberFormat | Intl.DateTimeFormat | Intl.RelativeTimeFormat>(
+  key: string,
+  create: (locale: string | undefined) => T
+): T {
+  const locale = preferredLocale();
+  const id = `${locale}|${key}`;
+  let formatter = formatters.get(id);
+  if (!formatter) {
+    formatter = create(locale);
+    formatters.set(id, formatter);
+  }
+  return formatter as T;
+}
+
+const compactUnit = (unit: "minute" | "hour" | "day", value: number) =>
+  cached(`unit:${unit}`, (locale) => new Intl.NumberFormat(locale, { style: "unit", unit, unitDisplay: "narrow" })).format(
+    value
+  );
+
+export const toDate = (value: string | Date) => (typeof value === "string" ? parseISO(value) : value);
+
+// Compact age for timelines: "now", "5m", "2h", "3d", then a calendar date
+// ("Mar 4", or "Mar 4, 2023" outside the current year).
+export function formatRelativeTime(value: string | Date, now: Date = new Date()): string {
+  const date = toDate(value);
+  if (!isValid(date)) return "";
+
+  // Clamp future times: a slightly fast server clock should still read "now".
+  const seconds = Math.max(0, differenceInSeconds(now, date));
+  if (seconds < MINUTE) {
+    return cached("relative", (locale) => new Intl.RelativeTimeFormat(locale, { numeric: "auto" })).format(0, "second");
+  }
+  if (seconds < HOUR) return compactUnit("minute", Math.floor(seconds / MINUTE));
+  if (seconds < DAY) return compactUnit("hour", Math.floor(seconds / HOUR));
+  if (seconds < WEEK) return compactUnit("day", Math.floor(seconds / DAY));
+
+  return isSameYear(date, now)
+    ? cached("date:short", (locale) => new Intl.DateTimeFormat(locale, { month: "short", day: "numeric" })).format(date)
+    : cached(
+        "date:short-year",
+        (locale) => new Intl.DateTimeFormat(locale, { month: "short", day: "numeric", year: "numeric" })
+      ).format(date);
+}
+
+// Full date and time, e.g. "Oct 19, 2026, 6:18 AM".
+export function formatAbsoluteTime(value: string | Date): string {
+  const date = toDate(value);
+  if (!isValid(date)) return "";
+  return cached("absolute", (locale) => new Intl.DateTimeFormat(locale, { dateStyle: "medium", timeStyle: "short" })).format(
+    date
+  );
+}
+
+// Month and year, e.g. "October 2021".
+export function formatMonthYear(value: string | Date): string {
+  const date = toDate(value);
+  if (!isValid(date)) return "";
+  return cached("month-year", (locale) => new Intl.DateTimeFormat(locale, { month: "long", year: "numeric" })).format(date);
+}
+
+// Time of day, e.g. "6:18 AM".
+export function formatClockTime(value: string | Date): string {
+  const date = toDate(value);
+  if (!isValid(date)) return "";
+  return cached("clock", (locale) => new Intl.DateTimeFormat(locale, { timeStyle: "short" })).format(date);
+}
+
+// Heading for a calendar day: "Today", "Yesterday", then "Monday, Oct 12"
+// (with the year once it differs from the current one).
+export function formatDayLabel(value: string | Date, now: Date = new Date()): string {
+  const date = toDate(value);
+  if (!isValid(date)) return "";
+
+  const offset = isSameDay(date, now) ? 0 : isSameDay(date, subDays(now, 1)) ? -1 : null;
+  if (offset !== null) {
+    const label = cached("relative", (locale) => new Intl.RelativeTimeFormat(locale, { numeric: "auto" })).format(
+      offset,
+      "day"
+    );
+    return label.charAt(0).toLocaleUpperCase() + label.slice(1);
+  }
+
+  return cached(`day:${isSameYear(date, now)}`, (locale) =>
+    new Intl.DateTimeFormat(locale, {
+      weekday: "long",
+      month: "short",
+      day: "numeric",
+      year: isSameYear(date, now) ? undefined : "numeric",
+    })
+  ).format(date);
+}
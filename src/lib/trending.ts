@@ -0,0 +1,132 @@
+import { tokenize } from "./post-text";
+
+// Trend detection for the sidebar. A term trends when it shows up in more
+// posts over a recent window than its baseline rate predicts, so a tag that
+// is always busy doesn't crowd out one that is suddenly taking off. Like
+// ranking.ts, everything here is a pure function of its inputs.
+
+export type TrendKind = "hashtag" | "phrase";
+
+export interface TrendInput {
+  text: string;
+  /** Milliseconds since the epoch. */
+  createdAt: number;
+}
+
+export interface TrendScore {
+  kind: TrendKind;
+  /** Lowercase; hashtags without "#", phrases as space-separated words. */
+  term: string;
+  /** Posts using the term within the window it spiked in. */
+  posts: number;
+  windowHours: number;
+  score: number;
+}
+
+export interface TrendOptions {
+  now: number;
+  /** Recent windows to test, in hours. Each slides with `now`. */
+  windowHours?: number[];
+  /** Hours before each window that set the term's normal rate. */
+  baselineHours?: number;
+  /** Fewer posts than this in a window is never a trend. */
+  minPosts?: number;
+  limit?: number;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const DEFAULT_WINDOW_HOURS = [1, 6, 24];
+const DEFAULT_BASELINE_HOURS = 7 * 24;
+const DEFAULT_MIN_POSTS = 2;
+const DEFAULT_LIMIT = 5;
+
+// Words too common to make a phrase interesting on their own.
+const STOPWORDS = new Set(
+  (
+    "a about after all also am an and any are as at be been being but by can could did do does for from " +
+    "get got had has have he her here him his how i if in into is it its it's just let me more my no not " +
+    "now of on one or our out over so some than that the their them then there these they this to too up " +
+    "us very was we were what when where which who why will with would you your i'm i've you're"
+  ).split(" ")
+);
+
+// Breaks phrases at punctuation other than in-word apostrophes and hyphens.
+const CLAUSE_BREAK = /[^\p{L}\p{N}\s'’-]+/u;
+
+const isPhraseWord = (word: string) => word.length > 1 && !STOPWORDS.has(word) && !/^\d+$/.test(word);
+
+// Distinct terms in `text`: its hashtags, and two-word phrases from the
+// prose around them. Links and mentions never form part of a phrase.
+export function extractTerms(text: string): { kind: TrendKind; term: string }[] {
+  const hashtags = new Set<string>();
+  const phrases = new Set<string>();
+
+  for (const segment of tokenize(text)) {
+    if (segment.type === "hashtag") hashtags.add(segment.tag);
+    if (segment.type !== "text") continue;
+
+    for (const clause of segment.text.toLowerCase().replace(/’/g, "'").split(CLAUSE_BREAK)) {
+      const words = clause.split(/\s+/).filter(Boolean);
+      for (let i = 1; i < words.length; i++) {
+        if (isPhraseWord(words[i - 1]) && isPhraseWord(words[i])) phrases.add(`${words[i - 1]} ${words[i]}`);
+      }
+    }
+  }
+
+  return [
+    ...Array.from(hashtags, (term) => ({ kind: "hashtag" as const, term })),
+    ...Array.from(phrases, (term) => ({ kind: "phrase" as const, term })),
+  ];
+}
+
+// How far `observed` sits above the count the baseline predicts, in units of
+// its expected spread. The +1 keeps brand-new terms from scoring infinitely.
+export function spikeScore(observed: number, expected: number): number {
+  return (observed - expected) / Math.sqrt(expected + 1);
+}
+
+// The strongest spikes among `items`, best first, each scored in whichever
+// window it stands out most.
+export function computeTrends(
+  items: TrendInput[],
+  {
+    now,
+    windowHours = DEFAULT_WINDOW_HOURS,
+    baselineHours = DEFAULT_BASELINE_HOURS,
+    minPosts = DEFAULT_MIN_POSTS,
+    limit = DEFAULT_LIMIT,
+  }: TrendOptions
+): TrendScore[] {
+  const oldest = now - (Math.max(...windowHours) + baselineHours) * HOUR_MS;
+  // Each term's post ages in hours.
+  const ages = new Map<string, { kind: TrendKind; term: string; hours: number[] }>();
+
+  for (const item of items) {
+    if (item.createdAt > now || item.createdAt <= oldest) continue;
+    const hours = (now - item.createdAt) / HOUR_MS;
+    for (const { kind, term } of extractTerms(item.text)) {
+      const key = `${kind}:${term}`;
+      const entry = ages.get(key) ?? { kind, term, hours: [] };
+      entry.hours.push(hours);
+      ages.set(key, entry);
+    }
+  }
+
+  const trends: TrendScore[] = [];
+  for (const { kind, term, hours } of ages.values()) {
+    let best: TrendScore | null = null;
+    for (const window of windowHours) {
+      const posts = hours.filter((age) => age < window).length;
+      if (posts < minPosts) continue;
+      const baseline = hours.filter((age) => age >= window && age < window + baselineHours).length;
+      const score = spikeScore(posts, (baseline * window) / baselineHours);
+      if (score > 0 && (!best || score > best.score)) best = { kind, term, posts, windowHours: window, score };
+    }
+    if (best) trends.push(best);
+  }
+
+  return trends
+    .sort((a, b) => b.score - a.score || b.posts - a.posts || a.term.localeCompare(b.term))
+    .slice(0, limit);
+}
@@ -1,7 +1,63 @@
-
 import { clsx, type ClassValue } from "clsx";
 import { twMerge } from "tailwind-merge";
 
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
+
+export function formatCurrency(amount: number, currency = "USD", options?: Intl.NumberFormatOptions) {
+  return new Intl.NumberFormat("en-US", {
+    style: "currency",
+    currency,
+    ...options,
+  }).format(amount);
+}
+
+export function generateUniqueId(prefix = "id") {
+  return `${prefix}-${Math.random().toString(36).substring(2, 9)}`;
+}
+
+export function truncateText(text: string, maxLength: number) {
+  if (text.length <= maxLength) return text;
+  return text.substring(0, maxLength) + "...";
+}
+
+export function formatDate(date: Date, options?: Intl.DateTimeFormatOptions) {
+  return new Intl.DateTimeFormat("en-US", {
+    day: "numeric",
+    month: "short",
+    year: "numeric",
+    ...options,
+  }).format(date);
+}
+
+// Delays calls to `func` until `wait` ms have passed without another call.
+// `cancel` drops a pending call, e.g. when a component unmounts.
+export function debounce<T extends (...args: never[]) => void>(func: T, wait: number) {
+  let timeout: ReturnType<typeof setTimeout> | null = null;
+
+  const debounced = (...args: Parameters<T>) => {
+    if (timeout !== null) clearTimeout(timeout);
+    timeout = setTimeout(() => {
+      timeout = null;
+      func(...args);
+    }, wait);
+  };
+  debounced.cancel = () => {
+    if (timeout !== null) clearTimeout(timeout);
+    timeout = null;
+  };
+  return debounced;
+}
+
+export function throttle<T extends (...args: never[]) => void>(func: T, limit: number) {
+  let inThrottle = false;
+  return (...args: Parameters<T>) => {
+    if (inThrottle) return;
+    func(...args);
+    inThrottle = true;
+    setTimeout(() => {
+      inThrottle = false;
+    }, limit);
+  };
+}
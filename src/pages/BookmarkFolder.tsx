@@ -0,0 +1,112 @@
+import { useState } from "react";
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft, Pencil, Trash2 } from "lucide-react";
+import { toast } from "react-toastify";
+import BookmarkFolderDialog from "@/components/bookmarks/BookmarkFolderDialog";
+import { EmptyState, ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/lightswind/alert-dialog";
+import PostCard from "@/components/post/PostCard";
+import { useBookmarkFolder, useBookmarks, useDeleteBookmarkFolder } from "@/hooks/use-bookmarks";
+import { isNotFound } from "@/lib/api";
+
+const BookmarkFolder = () => {
+  const { id = "" } = useParams();
+  const navigate = useNavigate();
+  const { data: folder, error: folderError, refetch: refetchFolder } = useBookmarkFolder(id);
+  const { data: bookmarks, isPending, isError, refetch } = useBookmarks(id);
+  const deleteFolder = useDeleteBookmarkFolder();
+  const [renaming, setRenaming] = useState(false);
+  const [confirmingDelete, setConfirmingDelete] = useState(false);
+
+  if (folderError) {
+    return isNotFound(folderError) ? (
+      <EmptyState>This folder doesn't exist anymore.</EmptyState>
+    ) : (
+      <ErrorState message="Couldn't load this folder." onRetry={() => refetchFolder()} />
+    );
+  }
+
+  // Posts moved elsewhere or unbookmarked leave straight away.
+  const posts = bookmarks?.filter((post) => post.bookmarkedByMe && post.bookmarkFolderId === id) ?? [];
+
+  return (
+    <div>
+      <div className="border-b border-neutral-800 p-4 flex items-center space-x-4">
+        <button onClick={() => navigate("/bookmarks")} className="p-2 -m-2 rounded-full hover:bg-neutral-800" aria-label="Back">
+          <ArrowLeft size={20} />
+        </button>
+        <div className="flex-1 min-w-0">
+          <h2 className="text-xl font-bold leading-tight truncate">{folder?.name ?? "Folder"}</h2>
+          <p className="text-sm text-neutral-500">Bookmarks</p>
+        </div>
+        {folder && (
+          <>
+            <button onClick={() => setRenaming(true)} className="p-2 rounded-full hover:bg-neutral-800" aria-label="Rename folder">
+              <Pencil size={18} />
+            </button>
+            <button
+              onClick={() => setConfirmingDelete(true)}
+              className="p-2 rounded-full hover:bg-red-500/10 hover:text-red-500"
+              aria-label="Delete folder"
+            >
+              <Trash2 size={18} />
+            </button>
+          </>
+        )}
+      </div>
+
+      {isPending ? (
+        <PostListSkeleton />
+      ) : isError ? (
+        <ErrorState message="Couldn't load this folder." onRetry={() => refetch()} />
+      ) : posts.length === 0 ? (
+        <EmptyState>Nothing here yet. Use “Move to folder” on a bookmarked post to file it here.</EmptyState>
+      ) : (
+        posts.map((post) => <PostCard key={post.id} post={post} />)
+      )}
+
+      {folder && (
+        <>
+          <BookmarkFolderDialog key={folder.name} folder={folder} open={renaming} onOpenChange={setRenaming} />
+          <AlertDialog open={confirmingDelete} onOpenChange={setConfirmingDelete}>
+            <AlertDialogContent className="bg-neutral-950 border-neutral-800 text-white max-w-xs rounded-2xl">
+              <AlertDialogHeader>
+                <AlertDialogTitle>Delete “{folder.name}”?</AlertDialogTitle>
+                <AlertDialogDescription className="text-neutral-500">
+                  The posts in it stay bookmarked and move back to your main bookmarks list.
+                </AlertDialogDescription>
+              </AlertDialogHeader>
+              <AlertDialogFooter className="sm:flex-col sm:space-x-0 gap-2">
+                <AlertDialogAction
+                  onClick={() =>
+                    deleteFolder.mutate(folder.id, {
+                      onSuccess: () => navigate("/bookmarks", { replace: true }),
+                      onError: () => toast.error("Couldn't delete the folder. Please try again."),
+                    })
+                  }
+                  className="rounded-full bg-red-500 text-white font-bold hover:bg-red-600"
+                >
+                  Delete
+                </AlertDialogAction>
+                <AlertDialogCancel className="rounded-full border-neutral-700 bg-transparent text-white hover:bg-neutral-900">
+                  Cancel
+                </AlertDialogCancel>
+              </AlertDialogFooter>
+            </AlertDialogContent>
+          </AlertDialog>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default BookmarkFolder;
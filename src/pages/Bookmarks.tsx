@@ -0,0 +1,58 @@
+import { useState } from "react";
+import { FolderPlus } from "lucide-react";
+import BookmarkFolderDialog from "@/components/bookmarks/BookmarkFolderDialog";
+import FolderTile from "@/components/bookmarks/FolderTile";
+import { EmptyState, ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import PostCard from "@/components/post/PostCard";
+import { useBookmarkFolders, useBookmarks } from "@/hooks/use-bookmarks";
+import { useCurrentUser } from "@/hooks/use-current-user";
+
+const Bookmarks = () => {
+  const currentUser = useCurrentUser();
+  const { data: folders = [] } = useBookmarkFolders();
+  const { data: bookmarks, isPending, isError, refetch } = useBookmarks();
+  const [creating, setCreating] = useState(false);
+
+  // Removals show up straight away instead of after the list refetches.
+  const posts = bookmarks?.filter((post) => post.bookmarkedByMe) ?? [];
+
+  return (
+    <div>
+      <div className="border-b border-neutral-800 p-4 flex items-center justify-between">
+        <div>
+          <h2 className="text-xl font-bold leading-tight">Bookmarks</h2>
+          <p className="text-sm text-neutral-500">@{currentUser.handle}</p>
+        </div>
+        <button
+          onClick={() => setCreating(true)}
+          className="p-2 -m-2 rounded-full hover:bg-neutral-800"
+          aria-label="New folder"
+        >
+          <FolderPlus size={20} />
+        </button>
+      </div>
+
+      {folders.length > 0 && (
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-8 py-8 border-b border-neutral-800">
+          {folders.map((folder) => (
+            <FolderTile key={folder.id} folder={folder} />
+          ))}
+        </div>
+      )}
+
+      {isPending ? (
+        <PostListSkeleton />
+      ) : isError ? (
+        <ErrorState message="Couldn't load your bookmarks." onRetry={() => refetch()} />
+      ) : posts.length === 0 ? (
+        <EmptyState>Save posts for later from the ••• menu on any post.</EmptyState>
+      ) : (
+        posts.map((post) => <PostCard key={post.id} post={post} />)
+      )}
+
+      <BookmarkFolderDialog open={creating} onOpenChange={setCreating} />
+    </div>
+  );
+};
+
+export default Bookmarks;
@@ -0,0 +1,176 @@
+import { useEffect, useMemo, useRef } from "react";
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import MessageComposer from "@/components/messages/MessageComposer";
+import TypingIndicator from "@/components/messages/TypingIndicator";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import {
+  OPTIMISTIC_MESSAGE_PREFIX,
+  useConversation,
+  useMarkConversationRead,
+  useMessages,
+} from "@/hooks/use-messages";
+import type { Message } from "@/lib/data";
+import { groupMessages, type MessageCluster } from "@/lib/messages";
+import { formatAbsoluteTime, formatClockTime, formatDayLabel } from "@/lib/time";
+import { cn } from "@/lib/utils";
+
+// Within this distance of the bottom, new messages keep the view pinned there.
+const STICKY_BOTTOM_PX = 150;
+
+interface ClusterProps {
+  cluster: MessageCluster;
+  fromViewer: boolean;
+  /** The viewer's latest message, which carries the read receipt. */
+  receiptFor?: Message;
+}
+
+const Cluster = ({ cluster, fromViewer, receiptFor }: ClusterProps) => {
+  const last = cluster.messages[cluster.messages.length - 1];
+  const hasReceipt = !!receiptFor && cluster.messages.includes(receiptFor);
+
+  return (
+    <div className={cn("flex items-end space-x-2 px-4 py-1", fromViewer && "justify-end")}>
+      {!fromViewer && (
+        <Avatar className="w-8 h-8 shrink-0">
+          <AvatarImage src={cluster.sender.avatarUrl} alt={cluster.sender.name} />
+          <AvatarFallback>{cluster.sender.name.charAt(0)}</AvatarFallback>
+        </Avatar>
+      )}
+      <div className={cn("flex flex-col max-w-[75%] space-y-1", fromViewer ? "items-end" : "items-start")}>
+        {cluster.messages.map((message) => (
+          <p
+            key={message.id}
+            title={formatAbsoluteTime(message.timestamp)}
+            className={cn(
+              "px-4 py-2 rounded-2xl whitespace-pre-wrap break-words",
+              fromViewer ? "bg-sky-500 text-white rounded-br-md" : "bg-neutral-800 text-white rounded-bl-md",
+              message.id.startsWith(OPTIMISTIC_MESSAGE_PREFIX) && "opacity-70"
+            )}
+          >
+            {message.content}
+          </p>
+        ))}
+        <span className="text-xs text-neutral-500">
+          {formatClockTime(last.timestamp)}
+          {hasReceipt &&
+            ` · ${
+              receiptFor.id.startsWith(OPTIMISTIC_MESSAGE_PREFIX) ? "Sending…" : receiptFor.seen ? "Seen" : "Sent"
+            }`}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+const Conversation = () => {
+  const { id = "" } = useParams();
+  const navigate = useNavigate();
+  const currentUser = useCurrentUser();
+  const { data: conversation, isError: conversationFailed, refetch: refetchConversation } = useConversation(id);
+  const { data, isPending, isError, refetch, hasNextPage, fetchNextPage, isFetchingNextPage } = useMessages(id);
+  const { mutate: markRead } = useMarkConversationRead(id);
+
+  // Pages arrive newest first; the chat reads top to bottom.
+  const messages = useMemo(() => (data?.pages.flatMap((page) => page.items) ?? []).reverse(), [data]);
+  const days = useMemo(() => groupMessages(messages), [messages]);
+  const receiptFor = useMemo(() => {
+    for (let i = messages.length - 1; i >= 0; i--) {
+      if (messages[i].sender.handle === currentUser.handle) return messages[i];
+    }
+  }, [messages, currentUser.handle]);
+
+  const unreadCount = conversation?.unreadCount ?? 0;
+  useEffect(() => {
+    if (unreadCount > 0 && document.visibilityState === "visible") markRead();
+  }, [unreadCount, markRead]);
+
+  const stickToBottom = useRef(true);
+  const bottomRef = useRef<HTMLDivElement>(null);
+  useEffect(() => {
+    const onScroll = () => {
+      const { scrollHeight } = document.documentElement;
+      stickToBottom.current = window.innerHeight + window.scrollY >= scrollHeight - STICKY_BOTTOM_PX;
+    };
+    window.addEventListener("scroll", onScroll, { passive: true });
+    return () => window.removeEventListener("scroll", onScroll);
+  }, []);
+
+  const newestId = messages[messages.length - 1]?.id;
+  const isTyping = !!conversation?.isTyping;
+  useEffect(() => {
+    if (stickToBottom.current) bottomRef.current?.scrollIntoView({ block: "end" });
+  }, [newestId, isTyping]);
+
+  if (conversationFailed) {
+    return <ErrorState message="Couldn't load this conversation." onRetry={() => refetchConversation()} />;
+  }
+
+  const participant = conversation?.participant;
+
+  return (
+    <div className="flex flex-col min-h-[calc(100vh-8rem)]">
+      <div className="border-b border-neutral-800 p-4 flex items-center space-x-4">
+        <button onClick={() => navigate("/messages")} className="p-2 -m-2 rounded-full hover:bg-neutral-800" aria-label="Back">
+          <ArrowLeft size={20} />
+        </button>
+        {participant && (
+          <Link to={`/profile/${participant.handle}`} className="flex items-center space-x-3 min-w-0">
+            <Avatar className="w-8 h-8">
+              <AvatarImage src={participant.avatarUrl} alt={participant.name} />
+              <AvatarFallback>{participant.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <div className="min-w-0">
+              <p className="font-bold truncate leading-tight">{participant.name}</p>
+              <p className="text-sm text-neutral-500 truncate leading-tight">@{participant.handle}</p>
+            </div>
+          </Link>
+        )}
+      </div>
+
+      <div className="flex-1 py-2">
+        {isPending ? (
+          <PostListSkeleton count={2} />
+        ) : isError ? (
+          <ErrorState message="Couldn't load messages." onRetry={() => refetch()} />
+        ) : (
+          <>
+            {hasNextPage && (
+              <button
+                onClick={() => fetchNextPage()}
+                disabled={isFetchingNextPage}
+                className="w-full p-3 text-sky-500 hover:bg-neutral-900/50 disabled:text-neutral-500"
+              >
+                {isFetchingNextPage ? "Loading…" : "Load earlier messages"}
+              </button>
+            )}
+            {messages.length === 0 && participant && (
+              <p className="p-8 text-center text-neutral-500">Say hi to {participant.name}.</p>
+            )}
+            {days.map((day) => (
+              <section key={day.date}>
+                <h3 className="text-center text-xs text-neutral-500 my-4">{formatDayLabel(day.date)}</h3>
+                {day.clusters.map((cluster) => (
+                  <Cluster
+                    key={cluster.messages[0].id}
+                    cluster={cluster}
+                    fromViewer={cluster.sender.handle === currentUser.handle}
+                    receiptFor={receiptFor}
+                  />
+                ))}
+              </section>
+            ))}
+            {isTyping && participant && <TypingIndicator name={participant.name} />}
+          </>
+        )}
+        <div ref={bottomRef} />
+      </div>
+
+      <MessageComposer conversationId={id} onSend={() => (stickToBottom.current = true)} />
+    </div>
+  );
+};
+
+export default Conversation;
@@ -0,0 +1,77 @@
+import { Link, Navigate, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import LoadMore from "@/components/common/LoadMore";
+import { EmptyState, ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import UserListItem from "@/components/user/UserListItem";
+import { useFollowList, useUser } from "@/hooks/use-users";
+import { isNotFound, isSuspended } from "@/lib/api";
+import { cn } from "@/lib/utils";
+
+type FollowListKind = "followers" | "following";
+
+const tabs: { kind: FollowListKind; label: string }[] = [
+  { kind: "followers", label: "Followers" },
+  { kind: "following", label: "Following" },
+];
+
+const FollowList = ({ kind }: { kind: FollowListKind }) => {
+  const { handle } = useParams();
+  const navigate = useNavigate();
+  const { data: user, error: userError } = useUser(handle);
+  const { data, isPending, isError, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useFollowList(handle, kind);
+  const users = data?.pages.flatMap((page) => page.items) ?? [];
+
+  // The profile page explains why the account can't be shown.
+  if (isNotFound(userError) || isSuspended(userError)) return <Navigate to={`/profile/${handle}`} replace />;
+
+  return (
+    <div>
+      <div className="border-b border-neutral-800">
+        <div className="p-4 flex items-center space-x-6">
+          <button onClick={() => navigate(-1)} className="p-2 -m-2 rounded-full hover:bg-neutral-800" aria-label="Back">
+            <ArrowLeft size={20} />
+          </button>
+          <div>
+            <h2 className="text-xl font-bold">{user?.name ?? handle}</h2>
+            <p className="text-sm text-neutral-500">@{handle}</p>
+          </div>
+        </div>
+        <nav className="flex">
+          {tabs.map((tab) => (
+            <Link
+              key={tab.kind}
+              to={`/profile/${handle}/${tab.kind}`}
+              replace
+              className={cn(
+                "flex-1 text-center py-4 hover:bg-neutral-900 transition-colors",
+                tab.kind === kind ? "font-bold text-white border-b-4 border-sky-500" : "text-neutral-500"
+              )}
+            >
+              {tab.label}
+            </Link>
+          ))}
+        </nav>
+      </div>
+
+      {isPending ? (
+        <PostListSkeleton />
+      ) : isError ? (
+        <ErrorState message="Couldn't load this list." onRetry={() => refetch()} />
+      ) : users.length === 0 ? (
+        <EmptyState>
+          {kind === "followers" ? `@${handle} doesn't have any followers yet.` : `@${handle} isn't following anyone yet.`}
+        </EmptyState>
+      ) : (
+        <>
+          {users.map((u) => (
+            <UserListItem key={u.handle} user={u} />
+          ))}
+          <LoadMore hasMore={hasNextPage} isLoading={isFetchingNextPage} onLoadMore={fetchNextPage} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default FollowList;
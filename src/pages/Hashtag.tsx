@@ -0,0 +1,51 @@
+import { useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import LoadMore from "@/components/common/LoadMore";
+import { EmptyState, ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import PostCard from "@/components/post/PostCard";
+import { useHashtag, useHashtagPosts } from "@/hooks/use-posts";
+
+const Hashtag = () => {
+  const { tag = "" } = useParams();
+  const navigate = useNavigate();
+  const normalized = tag.toLowerCase();
+  const { data: hashtag } = useHashtag(normalized);
+  const { data, isPending, isError, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useHashtagPosts(normalized);
+  const posts = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <div>
+      <div className="border-b border-neutral-800 p-4 flex items-center space-x-6">
+        <button onClick={() => navigate(-1)} className="p-2 -m-2 rounded-full hover:bg-neutral-800" aria-label="Back">
+          <ArrowLeft size={20} />
+        </button>
+        <div className="min-w-0">
+          <h2 className="text-xl font-bold truncate">#{normalized}</h2>
+          {hashtag && (
+            <p className="text-sm text-neutral-500">
+              {hashtag.posts} {hashtag.posts === 1 ? "post" : "posts"}
+            </p>
+          )}
+        </div>
+      </div>
+
+      {isPending ? (
+        <PostListSkeleton />
+      ) : isError ? (
+        <ErrorState message="Couldn't load posts for this hashtag." onRetry={() => refetch()} />
+      ) : posts.length === 0 ? (
+        <EmptyState>No posts with #{normalized} yet.</EmptyState>
+      ) : (
+        <>
+          {posts.map((post) => (
+            <PostCard key={post.id} post={post} />
+          ))}
+          <LoadMore hasMore={hasNextPage} isLoading={isFetchingNextPage} onLoadMore={fetchNextPage} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default Hashtag;
@@ -0,0 +1,106 @@
+import { useForm } from "react-hook-form";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import AuthLayout, { authInputClassName } from "@/components/auth/AuthLayout";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/lightswind/form";
+import { Input } from "@/components/lightswind/input";
+import { useLogIn, useReturnPath, useSession } from "@/hooks/use-auth";
+import { DEMO_PASSWORD, type LogInInput } from "@/lib/api";
+
+const Login = () => {
+  const location = useLocation();
+  const returnPath = useReturnPath();
+  const { data: session } = useSession();
+  const logIn = useLogIn();
+  const form = useForm<LogInInput>({ defaultValues: { identifier: "", password: "" } });
+
+  if (session) return <Navigate to={returnPath} replace />;
+
+  const onSubmit = form.handleSubmit((values) =>
+    logIn.mutate(values, {
+      onError: (error) => form.setError("root", { message: error.message }),
+    })
+  );
+
+  return (
+    <AuthLayout
+      title="Log in to your account"
+      footer={
+        <>
+          Don't have an account?{" "}
+          <Link to="/signup" state={location.state} className="text-sky-500 hover:underline">
+            Sign up
+          </Link>
+        </>
+      }
+    >
+      <Form {...form}>
+        <form onSubmit={onSubmit} noValidate className="space-y-5">
+          <FormField
+            control={form.control}
+            name="identifier"
+            rules={{ required: "Enter your email or username" }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email or username</FormLabel>
+                <FormControl>
+                  <Input
+                    ref={field.ref}
+                    name={field.name}
+                    value={field.value}
+                    onChange={field.onChange}
+                    autoComplete="username"
+                    className={authInputClassName}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            rules={{ required: "Enter your password" }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Password</FormLabel>
+                <FormControl>
+                  <Input
+                    ref={field.ref}
+                    name={field.name}
+                    value={field.value}
+                    onChange={field.onChange}
+                    type="password"
+                    autoComplete="current-password"
+                    className={authInputClassName}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {form.formState.errors.root && (
+            <p role="alert" className="text-sm font-medium text-red-500">
+              {form.formState.errors.root.message}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={logIn.isPending}
+            className="w-full bg-sky-500 hover:bg-sky-600 text-white font-bold py-3 rounded-full transition-colors duration-200 disabled:opacity-50"
+          >
+            {logIn.isPending ? "Logging in…" : "Log in"}
+          </button>
+
+          <p className="text-xs text-neutral-500">
+            Demo accounts such as <span className="text-neutral-300">alexdoe</span> use the password{" "}
+            <span className="text-neutral-300">{DEMO_PASSWORD}</span>.
+          </p>
+        </form>
+      </Form>
+    </AuthLayout>
+  );
+};
+
+export default Login;
@@ -0,0 +1,47 @@
+import { useState } from "react";
+import { MailPlus } from "lucide-react";
+import { EmptyState, ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import ConversationListItem from "@/components/messages/ConversationListItem";
+import NewMessageDialog from "@/components/messages/NewMessageDialog";
+import { useConversations } from "@/hooks/use-messages";
+
+const Messages = () => {
+  const { data: conversations, isPending, isError, refetch } = useConversations();
+  const [composing, setComposing] = useState(false);
+
+  return (
+    <div>
+      <div className="border-b border-neutral-800 p-4 flex items-center justify-between">
+        <h2 className="text-xl font-bold">Messages</h2>
+        <button
+          onClick={() => setComposing(true)}
+          className="p-2 -m-2 rounded-full hover:bg-neutral-800"
+          aria-label="New message"
+        >
+          <MailPlus size={20} />
+        </button>
+      </div>
+
+      {isPending ? (
+        <PostListSkeleton />
+      ) : isError ? (
+        <ErrorState message="Couldn't load your messages." onRetry={() => refetch()} />
+      ) : conversations.length === 0 ? (
+        <EmptyState>
+          No conversations yet.{" "}
+          <button onClick={() => setComposing(true)} className="text-sky-500 hover:underline">
+            Start one
+          </button>
+        </EmptyState>
+      ) : (
+        conversations.map((conversation) => (
+          <ConversationListItem key={conversation.id} conversation={conversation} />
+        ))
+      )}
+
+      <NewMessageDialog open={composing} onOpenChange={setComposing} />
+    </div>
+  );
+};
+
+export default Messages;
@@ -0,0 +1,24 @@
+import { Link } from "react-router-dom";
+
+const NotFound = () => (
+  <div className="px-8 py-16 text-center">
+    <h2 className="text-2xl font-bold">Hmm… this page doesn't exist.</h2>
+    <p className="mt-2 text-neutral-500">The link may be broken, or the page may have been removed.</p>
+    <div className="mt-6 flex justify-center gap-3">
+      <Link
+        to="/"
+        className="bg-sky-500 hover:bg-sky-600 text-white font-bold py-2 px-5 rounded-full transition-colors duration-200"
+      >
+        Go home
+      </Link>
+      <Link
+        to="/search"
+        className="border border-neutral-700 hover:bg-neutral-900 font-bold py-2 px-5 rounded-full transition-colors duration-200"
+      >
+        Search
+      </Link>
+    </div>
+  </div>
+);
+
+export default NotFound;
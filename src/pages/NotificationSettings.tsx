@@ -0,0 +1,211 @@
+import type { ReactNode } from "react";
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { toast } from "react-toastify";
+import { ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import { RadioGroup, RadioGroupItem } from "@/components/lightswind/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger } from "@/components/lightswind/select";
+import { Switch } from "@/components/lightswind/switch";
+import { useNotificationPreferences, useUpdateNotificationPreferences } from "@/hooks/use-notifications";
+import {
+  NOTIFICATION_TYPES,
+  type EmailDigestFrequency,
+  type NotificationAudience,
+  type NotificationPreferences,
+  type NotificationType,
+} from "@/lib/data";
+
+const SWITCH_COLOR = "#0ea5e9";
+
+const typeLabels: Record<NotificationType, { label: string; description: string }> = {
+  like: { label: "Likes", description: "Someone likes one of your posts." },
+  repost: { label: "Reposts", description: "Someone reposts one of your posts." },
+  follow: { label: "New followers", description: "Someone starts following you." },
+  mention: { label: "Mentions", description: "Someone mentions you in a post." },
+  reply: { label: "Replies", description: "Someone replies to one of your posts." },
+};
+
+const audiences: { value: NotificationAudience; label: string; description: string }[] = [
+  { value: "everyone", label: "Everyone", description: "Notifications from any account." },
+  { value: "following", label: "People you follow", description: "Only accounts you follow can notify you." },
+];
+
+const digests: { value: EmailDigestFrequency; label: string }[] = [
+  { value: "off", label: "Off" },
+  { value: "daily", label: "Daily" },
+  { value: "weekly", label: "Weekly" },
+];
+
+const HOURS = Array.from({ length: 24 }, (_, hour) => hour);
+
+const hourLabel = (hour: number) =>
+  new Date(2000, 0, 1, hour).toLocaleTimeString(undefined, { hour: "numeric", minute: "2-digit" });
+
+const browserTimeZone = () => Intl.DateTimeFormat().resolvedOptions().timeZone;
+
+const Section = ({ title, description, children }: { title: string; description: string; children: ReactNode }) => (
+  <section className="border-b border-neutral-800 p-4">
+    <h3 className="text-lg font-bold">{title}</h3>
+    <p className="text-sm text-neutral-500 mb-4">{description}</p>
+    {children}
+  </section>
+);
+
+const HourSelect = ({
+  label,
+  value,
+  disabled,
+  onChange,
+}: {
+  label: string;
+  value: number;
+  disabled: boolean;
+  onChange: (hour: number) => void;
+}) => (
+  <div className="flex-1">
+    <span className="block text-sm text-neutral-500 mb-1">{label}</span>
+    <Select value={String(value)} onValueChange={(hour) => onChange(Number(hour))} disabled={disabled}>
+      <SelectTrigger className="bg-black border-neutral-700" aria-label={label}>
+        {hourLabel(value)}
+      </SelectTrigger>
+      <SelectContent className="bg-neutral-900 border-neutral-800 text-white max-h-64">
+        {HOURS.map((hour) => (
+          <SelectItem key={hour} value={String(hour)} className="hover:bg-neutral-800">
+            {hourLabel(hour)}
+          </SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  </div>
+);
+
+const NotificationSettings = () => {
+  const navigate = useNavigate();
+  const { data: preferences, isPending, isError, refetch } = useNotificationPreferences();
+  const update = useUpdateNotificationPreferences();
+
+  const save = (next: NotificationPreferences) =>
+    update.mutate(next, { onError: () => toast.error("Couldn't save your notification settings.") });
+
+  // Hours are picked on the viewer's own clock, so any change to quiet hours
+  // also records the zone they're in now.
+  const saveQuietHours = (patch: Partial<NotificationPreferences["quietHours"]>) =>
+    preferences &&
+    save({ ...preferences, quietHours: { ...preferences.quietHours, ...patch, timeZone: browserTimeZone() } });
+
+  return (
+    <div>
+      <div className="border-b border-neutral-800 p-4 flex items-center space-x-6">
+        <button onClick={() => navigate(-1)} className="p-2 -m-2 rounded-full hover:bg-neutral-800" aria-label="Back">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-xl font-bold">Notification settings</h2>
+      </div>
+
+      {isPending ? (
+        <PostListSkeleton />
+      ) : isError ? (
+        <ErrorState message="Couldn't load your notification settings." onRetry={() => refetch()} />
+      ) : (
+        <>
+          <Section title="Notify me about" description="Turned-off kinds are never created, so they won't show up later.">
+            <div className="space-y-4">
+              {NOTIFICATION_TYPES.map((type) => (
+                <div key={type} className="flex items-center justify-between gap-4">
+                  <label htmlFor={`notify-${type}`} className="cursor-pointer">
+                    <span className="block font-medium">{typeLabels[type].label}</span>
+                    <span className="block text-sm text-neutral-500">{typeLabels[type].description}</span>
+                  </label>
+                  <Switch
+                    id={`notify-${type}`}
+                    checked={preferences.types[type]}
+                    onCheckedChange={(checked) =>
+                      save({ ...preferences, types: { ...preferences.types, [type]: checked } })
+                    }
+                    trackColor={SWITCH_COLOR}
+                  />
+                </div>
+              ))}
+            </div>
+          </Section>
+
+          <Section title="From" description="Whose activity can notify you.">
+            <RadioGroup
+              value={preferences.from}
+              onValueChange={(from) => save({ ...preferences, from: from as NotificationAudience })}
+              name="notification-audience"
+              className="space-y-3"
+            >
+              {audiences.map((audience) => (
+                <div key={audience.value} className="flex items-start gap-3">
+                  <RadioGroupItem id={`audience-${audience.value}`} value={audience.value} className="mt-1" />
+                  <label htmlFor={`audience-${audience.value}`} className="cursor-pointer">
+                    <span className="block font-medium">{audience.label}</span>
+                    <span className="block text-sm text-neutral-500">{audience.description}</span>
+                  </label>
+                </div>
+              ))}
+            </RadioGroup>
+          </Section>
+
+          <Section
+            title="Quiet hours"
+            description="Notifications that arrive during quiet hours wait until they end."
+          >
+            <div className="flex items-center justify-between gap-4 mb-4">
+              <label htmlFor="quiet-hours" className="font-medium cursor-pointer">
+                Pause notifications overnight
+              </label>
+              <Switch
+                id="quiet-hours"
+                checked={preferences.quietHours.enabled}
+                onCheckedChange={(enabled) => saveQuietHours({ enabled })}
+                trackColor={SWITCH_COLOR}
+              />
+            </div>
+            <div className="flex gap-4">
+              <HourSelect
+                label="From"
+                value={preferences.quietHours.startHour}
+                disabled={!preferences.quietHours.enabled}
+                onChange={(startHour) => saveQuietHours({ startHour })}
+              />
+              <HourSelect
+                label="Until"
+                value={preferences.quietHours.endHour}
+                disabled={!preferences.quietHours.enabled}
+                onChange={(endHour) => saveQuietHours({ endHour })}
+              />
+            </div>
+            {preferences.quietHours.enabled && (
+              <p className="mt-2 text-sm text-neutral-500">Times are in {preferences.quietHours.timeZone}.</p>
+            )}
+          </Section>
+
+          <Section title="Email digest" description="A summary of what you missed, sent to your inbox.">
+            <p className="mb-3 text-sm text-neutral-500">
+              Digests aren't being sent yet. Your choice is saved and will apply once they are.
+            </p>
+            <Select
+              value={preferences.emailDigest}
+              onValueChange={(emailDigest) => save({ ...preferences, emailDigest: emailDigest as EmailDigestFrequency })}
+            >
+              <SelectTrigger className="bg-black border-neutral-700" aria-label="Email digest frequency">
+                {digests.find((digest) => digest.value === preferences.emailDigest)?.label}
+              </SelectTrigger>
+              <SelectContent className="bg-neutral-900 border-neutral-800 text-white">
+                {digests.map((digest) => (
+                  <SelectItem key={digest.value} value={digest.value} className="hover:bg-neutral-800">
+                    {digest.label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </Section>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default NotificationSettings;
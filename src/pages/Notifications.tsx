@@ -1,75 +1,97 @@
-import { notifications, users } from "@/lib/data";
-import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
-import { Heart, Repeat, UserPlus } from "lucide-react";
+import { useMemo } from "react";
+import type { NotificationFilter } from "@/lib/api";
+import { groupNotifications } from "@/lib/notifications";
+import { ErrorState, EmptyState, PostListSkeleton } from "@/components/common/QueryState";
+import NotificationItem from "@/components/notifications/NotificationItem";
+import {
+  useMarkAllNotificationsRead,
+  useNotifications,
+  useUnreadNotificationCount,
+} from "@/hooks/use-notifications";
+import { CheckCheck, Settings } from "lucide-react";
 import { Link } from "react-router-dom";
+import { toast } from "react-toastify";
+import { cn } from "@/lib/utils";
 
-const NotificationIcon = ({ type }: { type: string }) => {
-  switch (type) {
-    case 'like':
-      return <Heart className="w-6 h-6 text-pink-500" />;
-    case 'repost':
-      return <Repeat className="w-6 h-6 text-green-500" />;
-    case 'follow':
-      return <UserPlus className="w-6 h-6 text-sky-500" />;
-    default:
-      return null;
-  }
-};
-
-const NotificationItem = ({ notification }: { notification: typeof notifications[0] }) => {
-    let content;
+const tabs: { filter: NotificationFilter; label: string; href: string; empty: string }[] = [
+  { filter: "all", label: "All", href: "/notifications", empty: "Nothing to see here — yet." },
+  {
+    filter: "mentions",
+    label: "Mentions",
+    href: "/notifications/mentions",
+    empty: "When someone mentions or replies to you, you'll find it here.",
+  },
+  {
+    filter: "verified",
+    label: "Verified",
+    href: "/notifications/verified",
+    empty: "Notifications from verified accounts show up here.",
+  },
+];
 
-    switch (notification.type) {
-        case 'like':
-            content = <>liked your post</>;
-            break;
-        case 'repost':
-            content = <>reposted your post</>;
-            break;
-        case 'follow':
-            content = <>followed you</>;
-            break;
-        case 'mention':
-            content = <>mentioned you in a post</>;
-            break;
-        default:
-            content = null;
-    }
+const Notifications = ({ filter = "all" }: { filter?: NotificationFilter }) => {
+  const { data: notifications, isPending, isError, refetch } = useNotifications(filter);
+  const markAllRead = useMarkAllNotificationsRead();
+  const groups = useMemo(() => groupNotifications(notifications ?? []), [notifications]);
+  // The button marks every tab read, so it goes by the overall count rather
+  // than what this tab shows.
+  const { data: unreadCount = 0 } = useUnreadNotificationCount();
+  const tab = tabs.find((t) => t.filter === filter) ?? tabs[0];
 
-    return (
-        <div className="border-b border-neutral-800 p-4 flex space-x-4 items-start hover:bg-neutral-900/50 transition-colors duration-200">
-            <div className="w-8 flex justify-end">
-                <NotificationIcon type={notification.type} />
-            </div>
-            <div className="w-full">
-                <Link to={`/profile/${notification.user.handle}`}>
-                    <Avatar className="w-8 h-8 mb-2">
-                        <AvatarImage src={notification.user.avatarUrl} />
-                        <AvatarFallback>{notification.user.name.charAt(0)}</AvatarFallback>
-                    </Avatar>
-                </Link>
-                <p>
-                    <Link to={`/profile/${notification.user.handle}`} className="font-bold hover:underline">{notification.user.name}</Link>
-                    <span className="text-neutral-400"> {content}</span>
-                </p>
-                {notification.post && <p className="text-neutral-500 mt-1">{notification.post.content}</p>}
-            </div>
-        </div>
-    );
-};
-
-
-const Notifications = () => {
   return (
     <div>
-      <div className="border-b border-neutral-800 p-4">
-        <h2 className="text-xl font-bold">Notifications</h2>
+      <div className="border-b border-neutral-800">
+        <div className="p-4 flex items-center justify-between">
+          <h2 className="text-xl font-bold">Notifications</h2>
+          <div className="flex items-center gap-4">
+            <button
+              onClick={() =>
+                markAllRead.mutate(undefined, { onError: () => toast.error("Couldn't mark notifications as read.") })
+              }
+              disabled={unreadCount === 0 || markAllRead.isPending}
+              className="p-2 -m-2 rounded-full text-sky-500 hover:bg-neutral-800 disabled:text-neutral-600 disabled:hover:bg-transparent transition-colors"
+              aria-label="Mark all as read"
+              title="Mark all as read"
+            >
+              <CheckCheck size={20} />
+            </button>
+            <Link
+              to="/settings/notifications"
+              className="p-2 -m-2 rounded-full hover:bg-neutral-800 transition-colors"
+              aria-label="Notification settings"
+              title="Notification settings"
+            >
+              <Settings size={20} />
+            </Link>
+          </div>
+        </div>
+        <nav className="flex">
+          {tabs.map((t) => (
+            <Link
+              key={t.filter}
+              to={t.href}
+              replace
+              className={cn(
+                "flex-1 text-center py-4 hover:bg-neutral-900 transition-colors",
+                t.filter === filter ? "font-bold text-white border-b-4 border-sky-500" : "text-neutral-500"
+              )}
+            >
+              {t.label}
+            </Link>
+          ))}
+        </nav>
       </div>
 
       <div>
-        {notifications.map((notification) => (
-          <NotificationItem key={notification.id} notification={notification} />
-        ))}
+        {isPending ? (
+          <PostListSkeleton />
+        ) : isError ? (
+          <ErrorState message="Couldn't load notifications." onRetry={() => refetch()} />
+        ) : groups.length === 0 ? (
+          <EmptyState>{tab.empty}</EmptyState>
+        ) : (
+          groups.map((group) => <NotificationItem key={group.id} group={group} />)
+        )}
       </div>
     </div>
   );
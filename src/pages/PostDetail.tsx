@@ -0,0 +1,120 @@
+import { Link, useNavigate, useParams } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
+import { EmptyState, ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import MediaGallery from "@/components/post/MediaGallery";
+import PostActions from "@/components/post/PostActions";
+import PostCard from "@/components/post/PostCard";
+import PostContent from "@/components/post/PostContent";
+import PostMenu from "@/components/post/PostMenu";
+import { useShowMoreReplies, useThread } from "@/hooks/use-posts";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { isNotFound, type ReplyPage } from "@/lib/api";
+import type { Post } from "@/lib/data";
+import { formatAbsoluteTime } from "@/lib/time";
+import { useUiStore } from "@/store/ui-store";
+
+const FocusedPost = ({ post }: { post: Post }) => (
+  <div className="px-4 pt-4 border-b border-neutral-800">
+    <div className="flex items-center space-x-3">
+      <Link to={`/profile/${post.author.handle}`}>
+        <Avatar className="w-12 h-12">
+          <AvatarImage src={post.author.avatarUrl} />
+          <AvatarFallback>{post.author.name.charAt(0)}</AvatarFallback>
+        </Avatar>
+      </Link>
+      <div className="flex-1 min-w-0">
+        <Link to={`/profile/${post.author.handle}`} className="font-bold hover:underline block">{post.author.name}</Link>
+        <span className="text-neutral-500">@{post.author.handle}</span>
+      </div>
+      <PostMenu post={post} />
+    </div>
+    <PostContent content={post.content} className="mt-4 text-xl text-white" />
+    {post.media && <MediaGallery media={post.media} className="mt-3" />}
+    <time dateTime={post.timestamp} className="block mt-4 text-neutral-500">{formatAbsoluteTime(post.timestamp)}</time>
+    <PostActions post={post} className="max-w-none border-t border-neutral-800 py-1" />
+  </div>
+);
+
+interface ReplyListProps {
+  threadId: string;
+  parentId: string;
+  page: ReplyPage;
+  depth?: number;
+}
+
+const ReplyList = ({ threadId, parentId, page, depth = 0 }: ReplyListProps) => {
+  const showMore = useShowMoreReplies(threadId);
+
+  return (
+    <div className={depth > 0 ? "ml-10 border-l border-neutral-800" : undefined}>
+      {page.items.map((node) => (
+        <div key={node.post.id}>
+          <PostCard post={node.post} />
+          <ReplyList threadId={threadId} parentId={node.post.id} page={node.replies} depth={depth + 1} />
+        </div>
+      ))}
+      {page.remaining > 0 && (
+        <button
+          onClick={() => showMore.mutate({ parentId, offset: page.items.length })}
+          disabled={showMore.isPending}
+          className="w-full text-left px-4 py-3 text-sky-500 hover:bg-neutral-900/50 border-b border-neutral-800 disabled:opacity-50"
+        >
+          {showMore.isPending
+            ? "Loading…"
+            : `Show ${page.remaining} more ${page.remaining === 1 ? "reply" : "replies"}`}
+        </button>
+      )}
+    </div>
+  );
+};
+
+const PostDetail = () => {
+  const { id } = useParams();
+  const navigate = useNavigate();
+  const { data: thread, isPending, isError, error, refetch } = useThread(id);
+  const currentUser = useCurrentUser();
+  const openComposer = useUiStore((state) => state.openComposer);
+
+  return (
+    <div>
+      <div className="border-b border-neutral-800 p-4 flex items-center space-x-6">
+        <button onClick={() => navigate(-1)} className="p-2 -m-2 rounded-full hover:bg-neutral-800" aria-label="Back">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-xl font-bold">Post</h2>
+      </div>
+
+      {isPending ? (
+        <PostListSkeleton count={2} />
+      ) : isNotFound(error) ? (
+        <EmptyState>This post doesn't exist. It may have been deleted.</EmptyState>
+      ) : isError ? (
+        <ErrorState message="Couldn't load this post." onRetry={() => refetch()} />
+      ) : (
+        <>
+          {thread.ancestors.map((ancestor) => (
+            <PostCard key={ancestor.id} post={ancestor} connected />
+          ))}
+          <FocusedPost post={thread.post} />
+
+          <button
+            onClick={() => openComposer(thread.post)}
+            className="w-full flex items-center space-x-4 p-4 border-b border-neutral-800 text-left hover:bg-neutral-900/50"
+          >
+            <Avatar className="w-10 h-10">
+              <AvatarImage src={currentUser.avatarUrl} />
+              <AvatarFallback>{currentUser.name.charAt(0)}</AvatarFallback>
+            </Avatar>
+            <span className="flex-1 text-neutral-500 text-lg">Post your reply</span>
+            <span className="bg-sky-500 text-white font-bold py-1.5 px-4 rounded-full">Reply</span>
+          </button>
+
+          <ReplyList threadId={thread.post.id} parentId={thread.post.id} page={thread.replies} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default PostDetail;
@@ -1,14 +1,57 @@
-import { useParams } from "react-router-dom";
-import { users, posts } from "@/lib/data";
+import { useState } from "react";
+import { Link, useParams } from "react-router-dom";
 import { Avatar, AvatarFallback, AvatarImage } from "@/components/lightswind/avatar";
 import { Button } from "@/components/lightswind/button";
-import { MoreHorizontal, Mail, Calendar, Link as LinkIcon, MapPin } from "lucide-react";
-import PostCard from "./Home"; // Re-using PostCard component from Home
+import { MoreHorizontal, Calendar, Link as LinkIcon, MapPin } from "lucide-react";
+import { ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import MessageButton from "@/components/messages/MessageButton";
+import EditProfileDialog from "@/components/user/EditProfileDialog";
+import FollowButton from "@/components/user/FollowButton";
+import FollowsYouBadge from "@/components/user/FollowsYouBadge";
+import ProfileTabContent from "@/components/user/ProfileTabContent";
+import UnavailableProfile from "@/components/user/UnavailableProfile";
+import VerifiedBadge from "@/components/user/VerifiedBadge";
+import { useCurrentUser } from "@/hooks/use-current-user";
+import { useUser } from "@/hooks/use-users";
+import { isNotFound, isSuspended, type ProfileTab } from "@/lib/api";
+import { websiteHref } from "@/lib/profile";
+import { formatMonthYear } from "@/lib/time";
+import { cn } from "@/lib/utils";
 
-const Profile = () => {
+const tabs: { tab: ProfileTab; label: string; path: string }[] = [
+  { tab: "posts", label: "Posts", path: "" },
+  { tab: "replies", label: "Replies", path: "/replies" },
+  { tab: "media", label: "Media", path: "/media" },
+  { tab: "likes", label: "Likes", path: "/likes" },
+];
+
+const Profile = ({ tab = "posts" }: { tab?: ProfileTab }) => {
   const { handle } = useParams();
-  const user = users.find((u) => u.handle === handle) || users[0];
-  const userPosts = posts.filter((p) => p.author.handle === user.handle);
+  const currentUser = useCurrentUser();
+  const [editing, setEditing] = useState(false);
+  const { data: user, isPending, isError, error, refetch } = useUser(handle);
+
+  if (isPending) {
+    return <PostListSkeleton count={2} />;
+  }
+
+  if (isError) {
+    if (isNotFound(error)) {
+      return (
+        <UnavailableProfile handle={handle!} title="This account doesn't exist">
+          Try searching for another.
+        </UnavailableProfile>
+      );
+    }
+    if (isSuspended(error)) {
+      return (
+        <UnavailableProfile handle={handle!} title="Account suspended">
+          This account has been suspended for breaking the rules.
+        </UnavailableProfile>
+      );
+    }
+    return <ErrorState message="Couldn't load this profile." onRetry={() => refetch()} />;
+  }
 
   return (
     <div>
@@ -32,54 +75,79 @@ const Profile = () => {
             <Button variant="outline" className="rounded-full p-2 h-auto border-neutral-700 hover:bg-neutral-800">
               <MoreHorizontal />
             </Button>
-            <Button variant="outline" className="rounded-full p-2 h-auto border-neutral-700 hover:bg-neutral-800">
-              <Mail />
-            </Button>
-            <Button className="rounded-full bg-white text-black font-bold hover:bg-neutral-200">
-              Follow
-            </Button>
+            <MessageButton user={user} />
+            <FollowButton user={user} className="px-5 py-2 text-base font-bold" />
+            {user.handle === currentUser.handle && (
+              <Button
+                variant="outline"
+                onClick={() => setEditing(true)}
+                className="rounded-full px-5 py-2 h-auto text-base font-bold border-neutral-700 hover:bg-neutral-800"
+              >
+                Edit profile
+              </Button>
+            )}
           </div>
           
           <div className="mt-4">
-            <h2 className="text-2xl font-bold">{user.name}</h2>
-            <p className="text-neutral-500">@{user.handle}</p>
+            <h2 className="text-2xl font-bold flex items-center space-x-1">
+              <span>{user.name}</span>
+              {user.verified && <VerifiedBadge className="w-5 h-5" />}
+            </h2>
+            <div className="flex items-center space-x-2">
+              <p className="text-neutral-500">@{user.handle}</p>
+              {user.followsMe && <FollowsYouBadge />}
+            </div>
           </div>
 
-          <p className="mt-4">{user.bio}</p>
+          {user.bio && <p className="mt-4">{user.bio}</p>}
 
           <div className="flex flex-wrap text-neutral-500 mt-4 gap-x-4 gap-y-2">
+            {user.location && (
+              <div className="flex items-center space-x-1">
+                <MapPin size={18} /> <span>{user.location}</span>
+              </div>
+            )}
+            {user.website && (
+              <div className="flex items-center space-x-1">
+                <LinkIcon size={18} /> <a href={websiteHref(user.website)} target="_blank" rel="noreferrer" className="text-sky-500 hover:underline">{user.website}</a>
+              </div>
+            )}
             <div className="flex items-center space-x-1">
-              <MapPin size={18} /> <span>{user.location}</span>
-            </div>
-            <div className="flex items-center space-x-1">
-              <LinkIcon size={18} /> <a href={`https://${user.website}`} target="_blank" rel="noreferrer" className="text-sky-500 hover:underline">{user.website}</a>
-            </div>
-            <div className="flex items-center space-x-1">
-              <Calendar size={18} /> <span>{user.joined}</span>
+              <Calendar size={18} /> <span>Joined {formatMonthYear(user.joined)}</span>
             </div>
           </div>
 
           <div className="flex space-x-6 mt-4">
-            <div>
+            <Link to={`/profile/${user.handle}/following`} className="hover:underline">
               <span className="font-bold">{user.following}</span> <span className="text-neutral-500">Following</span>
-            </div>
-            <div>
+            </Link>
+            <Link to={`/profile/${user.handle}/followers`} className="hover:underline">
               <span className="font-bold">{user.followers}</span> <span className="text-neutral-500">Followers</span>
-            </div>
+            </Link>
           </div>
         </div>
+
+        <nav className="flex">
+          {tabs.map((t) => (
+            <Link
+              key={t.tab}
+              to={`/profile/${user.handle}${t.path}`}
+              replace
+              className={cn(
+                "flex-1 text-center py-4 hover:bg-neutral-900 transition-colors",
+                t.tab === tab ? "font-bold text-white border-b-4 border-sky-500" : "text-neutral-500"
+              )}
+            >
+              {t.label}
+            </Link>
+          ))}
+        </nav>
       </div>
+      {user.handle === currentUser.handle && (
+        <EditProfileDialog open={editing} onOpenChange={setEditing} user={user} />
+      )}
       <div>
-        {userPosts.length > 0 ? (
-            userPosts.map((post) => (
-                // @ts-ignore
-                <PostCard key={post.id} post={post} />
-            ))
-        ) : (
-            <div className="p-8 text-center text-neutral-500">
-                This user hasn't posted anything yet.
-            </div>
-        )}
+        <ProfileTabContent handle={user.handle} tab={tab} />
       </div>
     </div>
   );
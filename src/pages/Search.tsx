@@ -0,0 +1,158 @@
+import { Link, useSearchParams } from "react-router-dom";
+import LoadMore from "@/components/common/LoadMore";
+import { EmptyState, ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import PostCard from "@/components/post/PostCard";
+import SearchBox from "@/components/search/SearchBox";
+import SuggestionContent from "@/components/search/SuggestionContent";
+import UserListItem from "@/components/user/UserListItem";
+import { useSearchHashtags, useSearchPosts, useSearchUsers } from "@/hooks/use-search";
+import { searchPath, suggestionPath, type SearchTab } from "@/lib/search";
+import { cn } from "@/lib/utils";
+
+const tabs: { value: SearchTab; label: string }[] = [
+  { value: "top", label: "Top" },
+  { value: "latest", label: "Latest" },
+  { value: "people", label: "People" },
+  { value: "hashtags", label: "Hashtags" },
+];
+
+// How many people lead the Top tab before its posts.
+const TOP_PEOPLE = 3;
+
+const parseTab = (value: string | null): SearchTab =>
+  tabs.find((tab) => tab.value === value)?.value ?? "top";
+
+const PostResults = ({ query, sort, header }: { query: string; sort: "top" | "latest"; header?: React.ReactNode }) => {
+  const { data, isPending, isError, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } = useSearchPosts(
+    query,
+    sort
+  );
+  const posts = data?.pages.flatMap((page) => page.items) ?? [];
+
+  if (isPending) return <PostListSkeleton />;
+  if (isError) return <ErrorState message="Couldn't load results." onRetry={() => refetch()} />;
+
+  return (
+    <>
+      {header}
+      {posts.length === 0 ? (
+        <EmptyState>No posts match “{query}”.</EmptyState>
+      ) : (
+        <>
+          {posts.map((post) => (
+            <PostCard key={post.id} post={post} />
+          ))}
+          <LoadMore hasMore={hasNextPage} isLoading={isFetchingNextPage} onLoadMore={fetchNextPage} />
+        </>
+      )}
+    </>
+  );
+};
+
+const PeoplePreview = ({ query }: { query: string }) => {
+  const { data } = useSearchUsers(query);
+  const users = data?.pages[0].items.slice(0, TOP_PEOPLE) ?? [];
+  if (users.length === 0) return null;
+
+  return (
+    <div className="border-b border-neutral-800">
+      <h3 className="px-4 pt-4 text-xl font-bold">People</h3>
+      {users.map((user) => (
+        <UserListItem key={user.handle} user={user} />
+      ))}
+      <Link to={searchPath(query, "people")} replace className="block p-4 text-sky-500 hover:bg-neutral-900/50">
+        View all
+      </Link>
+    </div>
+  );
+};
+
+const PeopleResults = ({ query }: { query: string }) => {
+  const { data, isPending, isError, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } = useSearchUsers(query);
+  const users = data?.pages.flatMap((page) => page.items) ?? [];
+
+  if (isPending) return <PostListSkeleton />;
+  if (isError) return <ErrorState message="Couldn't load results." onRetry={() => refetch()} />;
+  if (users.length === 0) return <EmptyState>No people match “{query}”.</EmptyState>;
+
+  return (
+    <>
+      {users.map((user) => (
+        <UserListItem key={user.handle} user={user} />
+      ))}
+      <LoadMore hasMore={hasNextPage} isLoading={isFetchingNextPage} onLoadMore={fetchNextPage} />
+    </>
+  );
+};
+
+const HashtagResults = ({ query }: { query: string }) => {
+  const { data, isPending, isError, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useSearchHashtags(query);
+  const hashtags = data?.pages.flatMap((page) => page.items) ?? [];
+
+  if (isPending) return <PostListSkeleton />;
+  if (isError) return <ErrorState message="Couldn't load results." onRetry={() => refetch()} />;
+  if (hashtags.length === 0) return <EmptyState>No hashtags match “{query}”.</EmptyState>;
+
+  return (
+    <>
+      {hashtags.map((hashtag) => (
+        <Link
+          key={hashtag.tag}
+          to={suggestionPath({ kind: "hashtag", hashtag })}
+          className="block p-4 border-b border-neutral-800 hover:bg-neutral-900/50 transition-colors"
+        >
+          <SuggestionContent suggestion={{ kind: "hashtag", hashtag }} />
+        </Link>
+      ))}
+      <LoadMore hasMore={hasNextPage} isLoading={isFetchingNextPage} onLoadMore={fetchNextPage} />
+    </>
+  );
+};
+
+const Search = () => {
+  const [params] = useSearchParams();
+  const query = params.get("q")?.trim() ?? "";
+  const tab = parseTab(params.get("f"));
+
+  return (
+    <div>
+      <div className="border-b border-neutral-800">
+        <div className="p-4">
+          <SearchBox key={query} initialQuery={query} autoFocus={!query} />
+        </div>
+        {query && (
+          <nav className="flex">
+            {tabs.map((t) => (
+              <Link
+                key={t.value}
+                to={searchPath(query, t.value)}
+                replace
+                className={cn(
+                  "flex-1 text-center py-4 hover:bg-neutral-900 transition-colors",
+                  t.value === tab ? "font-bold text-white border-b-4 border-sky-500" : "text-neutral-500"
+                )}
+              >
+                {t.label}
+              </Link>
+            ))}
+          </nav>
+        )}
+      </div>
+
+      {!query ? (
+        <EmptyState>Search for people, posts and #hashtags.</EmptyState>
+      ) : tab === "top" ? (
+        <PostResults query={query} sort="top" header={<PeoplePreview query={query} />} />
+      ) : tab === "latest" ? (
+        <PostResults query={query} sort="latest" />
+      ) : tab === "people" ? (
+        <PeopleResults query={query} />
+      ) : (
+        <HashtagResults query={query} />
+      )}
+    </div>
+  );
+};
+
+export default Search;
@@ -0,0 +1,166 @@
+import { useState } from "react";
+import { useForm } from "react-hook-form";
+import { Link, Navigate, useLocation } from "react-router-dom";
+import AuthLayout, { authInputClassName } from "@/components/auth/AuthLayout";
+import { Form, FormControl, FormField, FormItem, FormLabel, FormMessage } from "@/components/lightswind/form";
+import { Input } from "@/components/lightswind/input";
+import { PasswordStrengthIndicator, type StrengthLevel } from "@/components/lightswind/password-strength-indicator";
+import { useReturnPath, useSession, useSignUp } from "@/hooks/use-auth";
+import {
+  EMAIL_PATTERN,
+  HANDLE_PATTERN,
+  MAX_NAME_LENGTH,
+  MIN_PASSWORD_LENGTH,
+  type SignUpInput,
+} from "@/lib/api";
+
+// Weak passwords are rejected client-side; the server only enforces length.
+const ACCEPTED_STRENGTHS: StrengthLevel[] = ["medium", "strong", "very-strong"];
+
+const SignUp = () => {
+  const location = useLocation();
+  const returnPath = useReturnPath();
+  const { data: session } = useSession();
+  const signUp = useSignUp();
+  const [strength, setStrength] = useState<StrengthLevel>("empty");
+  const form = useForm<SignUpInput>({
+    defaultValues: { name: "", handle: "", email: "", password: "" },
+  });
+
+  if (session) return <Navigate to={returnPath} replace />;
+
+  const onSubmit = form.handleSubmit((values) =>
+    signUp.mutate(values, {
+      onError: (error) => form.setError("root", { message: error.message }),
+    })
+  );
+
+  return (
+    <AuthLayout
+      title="Create your account"
+      footer={
+        <>
+          Already have an account?{" "}
+          <Link to="/login" state={location.state} className="text-sky-500 hover:underline">
+            Log in
+          </Link>
+        </>
+      }
+    >
+      <Form {...form}>
+        <form onSubmit={onSubmit} noValidate className="space-y-5">
+          <FormField
+            control={form.control}
+            name="name"
+            rules={{
+              validate: (value) => !!value.trim() || "Enter your name",
+              maxLength: { value: MAX_NAME_LENGTH, message: `At most ${MAX_NAME_LENGTH} characters` },
+            }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Name</FormLabel>
+                <FormControl>
+                  <Input
+                    ref={field.ref}
+                    name={field.name}
+                    value={field.value}
+                    onChange={field.onChange}
+                    autoComplete="name"
+                    className={authInputClassName}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="handle"
+            rules={{
+              required: "Choose a username",
+              pattern: { value: HANDLE_PATTERN, message: "3–15 letters, numbers or underscores" },
+            }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Username</FormLabel>
+                <FormControl>
+                  <Input
+                    ref={field.ref}
+                    name={field.name}
+                    value={field.value}
+                    onChange={(e) => field.onChange(e.target.value.replace(/^@/, ""))}
+                    autoComplete="username"
+                    placeholder="yourname"
+                    className={authInputClassName}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="email"
+            rules={{
+              required: "Enter your email",
+              pattern: { value: EMAIL_PATTERN, message: "Enter a valid email address" },
+            }}
+            render={({ field }) => (
+              <FormItem>
+                <FormLabel>Email</FormLabel>
+                <FormControl>
+                  <Input
+                    ref={field.ref}
+                    name={field.name}
+                    value={field.value}
+                    onChange={field.onChange}
+                    type="email"
+                    autoComplete="email"
+                    className={authInputClassName}
+                  />
+                </FormControl>
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+          <FormField
+            control={form.control}
+            name="password"
+            rules={{
+              minLength: { value: MIN_PASSWORD_LENGTH, message: `At least ${MIN_PASSWORD_LENGTH} characters` },
+              validate: () => ACCEPTED_STRENGTHS.includes(strength) || "Choose a stronger password",
+            }}
+            render={({ field }) => (
+              <FormItem>
+                <PasswordStrengthIndicator
+                  value={field.value}
+                  onChange={field.onChange}
+                  onStrengthChange={setStrength}
+                  placeholder=""
+                  inputProps={{ name: field.name, autoComplete: "new-password", className: `pr-10 ${authInputClassName}` }}
+                />
+                <FormMessage />
+              </FormItem>
+            )}
+          />
+
+          {form.formState.errors.root && (
+            <p role="alert" className="text-sm font-medium text-red-500">
+              {form.formState.errors.root.message}
+            </p>
+          )}
+
+          <button
+            type="submit"
+            disabled={signUp.isPending}
+            className="w-full bg-sky-500 hover:bg-sky-600 text-white font-bold py-3 rounded-full transition-colors duration-200 disabled:opacity-50"
+          >
+            {signUp.isPending ? "Creating account…" : "Sign up"}
+          </button>
+        </form>
+      </Form>
+    </AuthLayout>
+  );
+};
+
+export default SignUp;
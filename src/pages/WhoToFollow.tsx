@@ -0,0 +1,48 @@
+import { useNavigate } from "react-router-dom";
+import { ArrowLeft } from "lucide-react";
+import LoadMore from "@/components/common/LoadMore";
+import { EmptyState, ErrorState, PostListSkeleton } from "@/components/common/QueryState";
+import DismissSuggestionButton from "@/components/user/DismissSuggestionButton";
+import SuggestionReason from "@/components/user/SuggestionReason";
+import UserListItem from "@/components/user/UserListItem";
+import { useFollowSuggestions } from "@/hooks/use-users";
+
+const WhoToFollow = () => {
+  const navigate = useNavigate();
+  const { data, isPending, isError, refetch, hasNextPage, isFetchingNextPage, fetchNextPage } =
+    useFollowSuggestions();
+  const suggestions = data?.pages.flatMap((page) => page.items) ?? [];
+
+  return (
+    <div>
+      <div className="border-b border-neutral-800 p-4 flex items-center space-x-6">
+        <button onClick={() => navigate(-1)} className="p-2 -m-2 rounded-full hover:bg-neutral-800" aria-label="Back">
+          <ArrowLeft size={20} />
+        </button>
+        <h2 className="text-xl font-bold">Who to follow</h2>
+      </div>
+
+      {isPending ? (
+        <PostListSkeleton />
+      ) : isError ? (
+        <ErrorState message="Couldn't load suggestions." onRetry={() => refetch()} />
+      ) : suggestions.length === 0 ? (
+        <EmptyState>No more suggestions for now. Check back once there are new people around.</EmptyState>
+      ) : (
+        <>
+          {suggestions.map((suggestion) => (
+            <UserListItem
+              key={suggestion.user.handle}
+              user={suggestion.user}
+              context={<SuggestionReason suggestion={suggestion} className="mt-1 text-sm" />}
+              action={<DismissSuggestionButton user={suggestion.user} />}
+            />
+          ))}
+          <LoadMore hasMore={hasNextPage} isLoading={isFetchingNextPage} onLoadMore={fetchNextPage} />
+        </>
+      )}
+    </div>
+  );
+};
+
+export default WhoToFollow;
@@ -1,13 +1,36 @@
 import { create } from 'zustand';
+import type { FeedKind } from '@/lib/api/types';
+import type { Post } from '@/lib/data';
 
 interface UiState {
   isSidebarOpen: boolean;
   toggleSidebar: () => void;
   setSidebarOpen: (isOpen: boolean) => void;
+  isComposerOpen: boolean;
+  /** Post the composer is replying to, if any. */
+  composerReplyTo: Post | null;
+  openComposer: (replyTo?: Post) => void;
+  setComposerOpen: (isOpen: boolean) => void;
+  homeFeed: FeedKind;
+  setHomeFeed: (feed: FeedKind) => void;
+  isCommandPaletteOpen: boolean;
+  setCommandPaletteOpen: (isOpen: boolean) => void;
 }
 
 export const useUiStore = create<UiState>((set) => ({
   isSidebarOpen: true,
   toggleSidebar: () => set((state) => ({ isSidebarOpen: !state.isSidebarOpen })),
   setSidebarOpen: (isOpen) => set({ isSidebarOpen: isOpen }),
+  isComposerOpen: false,
+  composerReplyTo: null,
+  openComposer: (replyTo) => set({ isComposerOpen: true, composerReplyTo: replyTo ?? null }),
+  setComposerOpen: (isOpen) =>
+    set((state) => ({
+      isComposerOpen: isOpen,
+      composerReplyTo: isOpen ? state.composerReplyTo : null,
+    })),
+  homeFeed: 'for-you',
+  setHomeFeed: (feed) => set({ homeFeed: feed }),
+  isCommandPaletteOpen: false,
+  setCommandPaletteOpen: (isOpen) => set({ isCommandPaletteOpen: isOpen }),
 }));